@@ -14,7 +14,11 @@ import { Bot, ChatContext, decorators } from '../src';
 const IRIS_URL = process.env.IRIS_URL || '127.0.0.1:3000';
 
 // Bot 인스턴스 생성
-const bot = new Bot('Create-Node-Iris-App', IRIS_URL, { maxWorkers: 4 });
+// SIGINT/SIGTERM을 받으면 진행 중인 핸들러가 끝날 때까지 기다린 뒤 종료합니다
+const bot = new Bot('Create-Node-Iris-App', IRIS_URL, {
+  maxWorkers: 4,
+  shutdown: { handleSignals: true, timeoutMs: 10000 },
+});
 
 // 간단한 메시지 핸들러
 bot.on('message', async (context: ChatContext) => {
@@ -118,19 +122,6 @@ async function startBot() {
   }
 }
 
-// 종료 시그널 처리
-process.on('SIGINT', () => {
-  console.log('봇을 종료합니다...');
-  bot.stop();
-  process.exit(0);
-});
-
-process.on('SIGTERM', () => {
-  console.log('봇을 종료합니다...');
-  bot.stop();
-  process.exit(0);
-});
-
 // 메인 함수가 실행되는 경우에만 봇 시작
 if (require.main === module) {
   startBot();
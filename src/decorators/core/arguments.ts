@@ -0,0 +1,475 @@
+/**
+ * Declarative argument schemas for bot commands
+ */
+
+import { ValidationError } from '@/types';
+import type { MentionListAttachment } from '@/types/models/attachment-types';
+import type { SafeId } from '@/types/models/base';
+import { isMentionListAttachment } from '@/types/models/utils';
+import type { Message } from '@/types/models/message';
+import { toSafeId } from '@/utils';
+
+export type CommandArgumentType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'mention'
+  | 'enum';
+
+export interface CommandArgumentDefinition {
+  name: string;
+  type?: CommandArgumentType; // 기본값: 'string'
+  description?: string;
+  optional?: boolean;
+  rest?: boolean; // 남은 모든 토큰을 소비 (마지막 인자에만 사용)
+  choices?: string[]; // type이 'enum'인 경우 허용 값
+  default?: any;
+}
+
+export interface CommandFlagDefinition {
+  name: string;
+  alias?: string; // 한 글자 별칭 (예: 's' -> -s)
+  type?: Exclude<CommandArgumentType, 'mention'>; // 기본값: 'boolean'
+  description?: string;
+  choices?: string[];
+  default?: any;
+}
+
+export interface CommandArgumentSchema {
+  args?: CommandArgumentDefinition[];
+  flags?: CommandFlagDefinition[];
+}
+
+export interface MentionArgument {
+  userId: SafeId;
+  name: string;
+}
+
+export type ParsedCommandArguments = Record<string, any>;
+
+export class CommandArgumentError extends ValidationError {
+  constructor(
+    message: string,
+    public argument?: string
+  ) {
+    super(message, { argument });
+    this.name = 'CommandArgumentError';
+  }
+}
+
+interface ArgumentToken {
+  value: string;
+  quoted: boolean;
+  mention?: MentionArgument;
+}
+
+interface MentionSpan {
+  start: number;
+  end: number;
+  mention: MentionArgument;
+}
+
+/**
+ * Resolve mention positions in the full message text.
+ * `at` holds 1-based indices of '@' markers in the message, `len` the nickname length.
+ */
+function resolveMentionSpans(
+  text: string,
+  attachment: MentionListAttachment | null
+): MentionSpan[] {
+  if (!attachment) {
+    return [];
+  }
+
+  const markers: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '@') {
+      markers.push(i);
+    }
+  }
+
+  const spans: MentionSpan[] = [];
+  for (const mention of attachment.mentions) {
+    const length = Number(mention.len);
+    for (const index of mention.at || []) {
+      const start = markers[Number(index) - 1];
+      if (start === undefined || !Number.isFinite(length)) continue;
+
+      spans.push({
+        start,
+        end: start + 1 + length,
+        mention: {
+          userId: toSafeId(mention.user_id),
+          name: text.substring(start + 1, start + 1 + length),
+        },
+      });
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Split parameter text into tokens, honouring quotes and mention spans
+ */
+function tokenize(
+  text: string,
+  offset: number,
+  mentionSpans: MentionSpan[]
+): ArgumentToken[] {
+  const tokens: ArgumentToken[] = [];
+  let i = offset;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    const span = mentionSpans.find((s) => s.start === i);
+    if (span) {
+      tokens.push({
+        value: text.substring(span.start, span.end),
+        quoted: false,
+        mention: span.mention,
+      });
+      i = span.end;
+      continue;
+    }
+
+    const quote = text[i];
+    if (quote === '"' || quote === "'") {
+      let value = '';
+      let closed = false;
+      i++;
+      while (i < text.length) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          value += text[i + 1];
+          i += 2;
+          continue;
+        }
+        if (text[i] === quote) {
+          closed = true;
+          i++;
+          break;
+        }
+        value += text[i];
+        i++;
+      }
+
+      if (!closed) {
+        throw new CommandArgumentError('따옴표가 닫히지 않았습니다.');
+      }
+
+      tokens.push({ value, quoted: true });
+      continue;
+    }
+
+    const start = i;
+    while (i < text.length && !/\s/.test(text[i])) {
+      i++;
+    }
+    tokens.push({ value: text.substring(start, i), quoted: false });
+  }
+
+  return tokens;
+}
+
+function convertValue(
+  token: ArgumentToken,
+  name: string,
+  type: CommandArgumentType,
+  choices?: string[]
+): any {
+  switch (type) {
+    case 'number': {
+      const value = Number(token.value);
+      if (token.value.trim() === '' || !Number.isFinite(value)) {
+        throw new CommandArgumentError(
+          `${name}: 숫자가 필요합니다. (입력: ${token.value})`,
+          name
+        );
+      }
+      return value;
+    }
+
+    case 'integer': {
+      if (!/^[-+]?\d+$/.test(token.value)) {
+        throw new CommandArgumentError(
+          `${name}: 정수가 필요합니다. (입력: ${token.value})`,
+          name
+        );
+      }
+      return parseInt(token.value, 10);
+    }
+
+    case 'boolean': {
+      const normalized = token.value.toLowerCase();
+      if (['true', 'yes', 'y', 'on', '1', '예', '네'].includes(normalized)) {
+        return true;
+      }
+      if (
+        ['false', 'no', 'n', 'off', '0', '아니오', '아니요'].includes(
+          normalized
+        )
+      ) {
+        return false;
+      }
+      throw new CommandArgumentError(
+        `${name}: true 또는 false가 필요합니다. (입력: ${token.value})`,
+        name
+      );
+    }
+
+    case 'mention': {
+      if (!token.mention) {
+        throw new CommandArgumentError(
+          `${name}: 사용자를 멘션해 주세요. (입력: ${token.value})`,
+          name
+        );
+      }
+      return token.mention;
+    }
+
+    case 'enum': {
+      const allowed = choices || [];
+      if (!allowed.includes(token.value)) {
+        throw new CommandArgumentError(
+          `${name}: 허용되지 않은 값입니다. (${allowed.join(', ')} 중 하나)`,
+          name
+        );
+      }
+      return token.value;
+    }
+
+    default:
+      return token.value;
+  }
+}
+
+function isFlagToken(token: ArgumentToken): boolean {
+  return (
+    !token.quoted &&
+    !token.mention &&
+    token.value.startsWith('-') &&
+    token.value.length > 1 &&
+    !/^-\d/.test(token.value)
+  );
+}
+
+/**
+ * Parse the parameter part of a message according to an argument schema
+ * @param message - 명령어가 포함된 메시지
+ * @param fullCommand - prefix를 포함한 전체 명령어
+ * @param schema - 인자 스키마
+ */
+export function parseCommandArguments(
+  message: Message,
+  fullCommand: string,
+  schema: CommandArgumentSchema
+): ParsedCommandArguments {
+  const text = typeof message.msg === 'string' ? message.msg : '';
+  const offset = text.startsWith(fullCommand) ? fullCommand.length : 0;
+  const mentions = isMentionListAttachment(message.attachment)
+    ? message.attachment
+    : null;
+
+  const tokens = tokenize(text, offset, resolveMentionSpans(text, mentions));
+  return parseArgumentTokens(tokens, schema);
+}
+
+function parseArgumentTokens(
+  tokens: ArgumentToken[],
+  schema: CommandArgumentSchema
+): ParsedCommandArguments {
+  const argDefs = schema.args || [];
+  const flagDefs = schema.flags || [];
+  const result: ParsedCommandArguments = {};
+  const positionals: ArgumentToken[] = [];
+
+  // 플래그 기본값 설정
+  for (const flag of flagDefs) {
+    const type = flag.type || 'boolean';
+    result[flag.name] =
+      flag.default !== undefined
+        ? flag.default
+        : type === 'boolean'
+          ? false
+          : undefined;
+  }
+
+  // 플래그와 위치 인자 분리
+  let flagsEnded = false;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (flagsEnded || !isFlagToken(token)) {
+      positionals.push(token);
+      continue;
+    }
+
+    if (token.value === '--') {
+      flagsEnded = true;
+      continue;
+    }
+
+    let name: string;
+    let inlineValue: string | undefined;
+    let negated = false;
+
+    if (token.value.startsWith('--')) {
+      const body = token.value.substring(2);
+      const eqIndex = body.indexOf('=');
+      name = eqIndex >= 0 ? body.substring(0, eqIndex) : body;
+      inlineValue = eqIndex >= 0 ? body.substring(eqIndex + 1) : undefined;
+    } else {
+      name = token.value.substring(1);
+    }
+
+    let flag = flagDefs.find((f) =>
+      token.value.startsWith('--') ? f.name === name : f.alias === name
+    );
+
+    if (!flag && token.value.startsWith('--no-')) {
+      flag = flagDefs.find(
+        (f) =>
+          f.name === name.substring(3) && (f.type || 'boolean') === 'boolean'
+      );
+      negated = !!flag;
+    }
+
+    if (!flag) {
+      throw new CommandArgumentError(`알 수 없는 옵션입니다: ${token.value}`);
+    }
+
+    const type = flag.type || 'boolean';
+    if (type === 'boolean' && inlineValue === undefined) {
+      result[flag.name] = !negated;
+      continue;
+    }
+
+    let valueToken: ArgumentToken | undefined;
+    if (inlineValue !== undefined) {
+      valueToken = { value: inlineValue, quoted: false };
+    } else if (i + 1 < tokens.length) {
+      valueToken = tokens[++i];
+    }
+
+    if (!valueToken) {
+      throw new CommandArgumentError(
+        `--${flag.name} 옵션에 값이 필요합니다.`,
+        flag.name
+      );
+    }
+
+    result[flag.name] = convertValue(
+      valueToken,
+      `--${flag.name}`,
+      type,
+      flag.choices
+    );
+  }
+
+  // 위치 인자 매핑
+  let cursor = 0;
+  for (const def of argDefs) {
+    const type = def.type || 'string';
+
+    if (def.rest) {
+      const rest = positionals.slice(cursor);
+      cursor = positionals.length;
+
+      if (rest.length === 0) {
+        if (!def.optional && def.default === undefined) {
+          throw new CommandArgumentError(
+            `필수 인자 <${def.name}>이(가) 없습니다.`,
+            def.name
+          );
+        }
+        result[def.name] =
+          def.default !== undefined
+            ? def.default
+            : type === 'string'
+              ? undefined
+              : [];
+        continue;
+      }
+
+      result[def.name] =
+        type === 'string'
+          ? rest.map((token) => token.value).join(' ')
+          : rest.map((token) =>
+              convertValue(token, def.name, type, def.choices)
+            );
+      continue;
+    }
+
+    const token = positionals[cursor];
+    if (!token) {
+      if (!def.optional && def.default === undefined) {
+        throw new CommandArgumentError(
+          `필수 인자 <${def.name}>이(가) 없습니다.`,
+          def.name
+        );
+      }
+      result[def.name] = def.default;
+      continue;
+    }
+
+    result[def.name] = convertValue(token, def.name, type, def.choices);
+    cursor++;
+  }
+
+  if (cursor < positionals.length) {
+    const extra = positionals
+      .slice(cursor)
+      .map((token) => token.value)
+      .join(' ');
+    throw new CommandArgumentError(`불필요한 인자가 있습니다: ${extra}`);
+  }
+
+  return result;
+}
+
+/**
+ * Build a usage line such as `!ban <target:mention> [reason...] [--silent]`
+ */
+export function formatCommandUsage(
+  fullCommand: string,
+  schema: CommandArgumentSchema
+): string {
+  const parts = [fullCommand];
+
+  for (const def of schema.args || []) {
+    const type = def.type || 'string';
+    let label = def.name;
+    if (type === 'enum' && def.choices) {
+      label = def.choices.join('|');
+    } else if (type !== 'string') {
+      label = `${def.name}:${type}`;
+    }
+    if (def.rest) {
+      label += '...';
+    }
+
+    const optional = def.optional || def.default !== undefined;
+    parts.push(optional ? `[${label}]` : `<${label}>`);
+  }
+
+  for (const flag of schema.flags || []) {
+    const type = flag.type || 'boolean';
+    const name = flag.alias
+      ? `-${flag.alias}|--${flag.name}`
+      : `--${flag.name}`;
+    if (type === 'boolean') {
+      parts.push(`[${name}]`);
+    } else {
+      const label =
+        type === 'enum' && flag.choices ? flag.choices.join('|') : type;
+      parts.push(`[${name} <${label}>]`);
+    }
+  }
+
+  return parts.join(' ');
+}
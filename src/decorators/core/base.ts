@@ -2,11 +2,22 @@
  * Base types, storage, and utilities for decorators
  */
 
+import { getRateLimiters } from '@/services/core/RateLimiter';
 import { ChatContext } from '@/types/models';
 import { Logger } from '@/utils/logger';
 
 export type DecoratorHandler = (context: ChatContext) => void | Promise<void>;
 
+export type NextFunction = () => Promise<void>;
+
+/**
+ * Koa-style middleware: call `next()` to continue, skip it to stop dispatch
+ */
+export type Middleware = (
+  context: ChatContext,
+  next: NextFunction
+) => void | Promise<void>;
+
 // Global debug logger for decorators
 let globalDebugLogger: Logger | null = null;
 
@@ -21,9 +32,6 @@ export function getGlobalDebugLogger(): Logger {
   return globalDebugLogger;
 }
 
-// Throttle storage for rate limiting
-export const throttleStorage = new Map<string, Map<string, number[]>>();
-
 // Command registry for bot commands
 export const commandRegistry = new Map<string, any>();
 
@@ -40,6 +48,25 @@ export const bootstrapControllerRegistry = new Map<string, any[]>();
 export const controllerPrefixStorage = new Map<Function, string>();
 export const methodPrefixStorage = new Map<Function, string>();
 
+// Command group storage for controllers and methods (group path tokens)
+export const controllerGroupStorage = new Map<Function, string[]>();
+export const methodGroupStorage = new Map<Function, string[]>();
+
+// Command group descriptions keyed by group path (e.g. 'admin role')
+export const commandGroupDescriptions = new Map<string, string>();
+// Method group descriptions keyed by controller and method group path
+// (메서드 데코레이터가 클래스 데코레이터보다 먼저 실행되므로 전체 경로는 도움말을 만들 때 계산)
+export const methodGroupDescriptions = new Map<Function, Map<string, string>>();
+
+// Middleware storage for controllers
+export const controllerMiddlewareStorage = new Map<Function, Middleware[]>();
+
+// Dispatch priority storage for controllers (higher runs first)
+export const controllerPriorityStorage = new Map<Function, number>();
+
+// Bot names a controller is bound to (unbound controllers are used by every bot)
+export const controllerBotStorage = new Map<Function, string[]>();
+
 // Decorator metadata storage
 export const decoratorMetadata = new Map<
   Function,
@@ -48,6 +75,7 @@ export const decoratorMetadata = new Map<
     hasDecorators: boolean;
     isMessageHandler?: boolean;
     allowedRooms?: string[];
+    priority?: number;
   }
 >();
 
@@ -116,8 +144,10 @@ export function getBootstrapControllers(): Map<string, any[]> {
  * Clear throttle data for a specific user (useful for admin commands)
  */
 export function clearUserThrottle(userId: string): void {
-  throttleStorage.forEach((methodMap) => {
-    methodMap.delete(userId);
+  Promise.all(
+    Array.from(getRateLimiters()).map((limiter) => limiter.resetUser(userId))
+  ).catch((error) => {
+    getGlobalDebugLogger().error('Failed to clear throttle:', error);
   });
 }
 
@@ -125,7 +155,11 @@ export function clearUserThrottle(userId: string): void {
  * Clear all throttle data
  */
 export function clearAllThrottle(): void {
-  throttleStorage.clear();
+  Promise.all(
+    Array.from(getRateLimiters()).map((limiter) => limiter.resetAll())
+  ).catch((error) => {
+    getGlobalDebugLogger().error('Failed to clear throttle:', error);
+  });
 }
 
 /**
@@ -135,6 +169,36 @@ export function getControllerPrefix(constructor: Function): string | undefined {
   return controllerPrefixStorage.get(constructor);
 }
 
+/**
+ * Get the dispatch priority for a controller class
+ */
+export function getControllerPriority(
+  constructor: Function
+): number | undefined {
+  return controllerPriorityStorage.get(constructor);
+}
+
+/**
+ * Bind a controller class to specific bots (by Bot name)
+ */
+export function setControllerBots(
+  constructor: Function,
+  bots: string | string[]
+): void {
+  controllerBotStorage.set(constructor, Array.isArray(bots) ? bots : [bots]);
+}
+
+/**
+ * Check if a controller class should be registered by a bot
+ */
+export function isControllerForBot(
+  constructor: Function,
+  botName: string
+): boolean {
+  const bots = controllerBotStorage.get(constructor);
+  return !bots || bots.includes(botName);
+}
+
 /**
  * Get the prefix for a method
  */
@@ -159,6 +223,18 @@ export function setMethodPrefix(method: Function, prefix: string): void {
   methodPrefixStorage.set(method, prefix);
 }
 
+/**
+ * Get the command group path for a controller and method (class groups first)
+ */
+export function getCommandGroupPath(
+  constructor: Function,
+  method?: Function
+): string[] {
+  const classPath = controllerGroupStorage.get(constructor) || [];
+  const methodPath = method ? methodGroupStorage.get(method) || [] : [];
+  return [...classPath, ...methodPath];
+}
+
 /**
  * Clear all prefix data
  */
@@ -2,48 +2,44 @@
  * Batch processing and scheduling decorators
  */
 
-import { BatchScheduler } from '@/services/core/BatchScheduler';
+import {
+  BatchScheduler,
+  ScheduledMessage,
+  ScheduledMessageOptions,
+} from '@/services/core/BatchScheduler';
 import { ChatContext } from '@/types/models';
 import {
   batchControllerRegistry,
   bootstrapControllerRegistry,
   decoratorMetadata,
-  registerController,
 } from './base';
+import { createControllerDecorator } from './controller';
 
 /**
  * Class decorator for BatchController
  */
-export function BatchController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  // Register in main controller registry for processing
-  registerController('batch', constructor);
-
-  // Also register in batch controller registry
-  const existing = batchControllerRegistry.get('batch') || [];
-  existing.push(constructor);
-  batchControllerRegistry.set('batch', existing);
-
-  return constructor;
-}
+export const BatchController = createControllerDecorator(
+  'batch',
+  (constructor) => {
+    // Also register in batch controller registry
+    const existing = batchControllerRegistry.get('batch') || [];
+    existing.push(constructor);
+    batchControllerRegistry.set('batch', existing);
+  }
+);
 
 /**
  * Class decorator for BootstrapController
  */
-export function BootstrapController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  // Register in main controller registry for processing
-  registerController('bootstrap', constructor);
-
-  // Also register in bootstrap controller registry
-  const existing = bootstrapControllerRegistry.get('bootstrap') || [];
-  existing.push(constructor);
-  bootstrapControllerRegistry.set('bootstrap', existing);
-
-  return constructor;
-}
+export const BootstrapController = createControllerDecorator(
+  'bootstrap',
+  (constructor) => {
+    // Also register in bootstrap controller registry
+    const existing = bootstrapControllerRegistry.get('bootstrap') || [];
+    existing.push(constructor);
+    bootstrapControllerRegistry.set('bootstrap', existing);
+  }
+);
 
 /**
  * Schedule decorator for batch processing at intervals or using cron expressions
@@ -131,6 +127,33 @@ export function Bootstrap(priority: number = 0) {
   };
 }
 
+/**
+ * Shutdown decorator for cleanup methods run when the bot stops
+ * 진행 중인 이벤트 처리가 끝난 뒤 실행되며, 모든 컨트롤러에서 사용 가능
+ * @param priority - 실행 우선순위 (낮은 숫자가 먼저 실행)
+ */
+export function Shutdown(priority: number = 0) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+
+    // 메타데이터 저장 (실제 등록은 Bot에서 수행)
+    const metadata = decoratorMetadata.get(originalMethod) || {
+      commands: [],
+      hasDecorators: false,
+    };
+    metadata.hasDecorators = true;
+    (metadata as any).shutdownPriority = priority;
+
+    // Set metadata as function property
+    (originalMethod as any).__decoratorMetadata = metadata;
+    decoratorMetadata.set(originalMethod, metadata);
+  };
+}
+
 /**
  * Helper function to get schedule methods from a controller
  */
@@ -233,6 +256,43 @@ export function getBootstrapMethods(controller: any): Array<{
   return bootstrapMethods;
 }
 
+/**
+ * Helper function to get shutdown methods from a controller
+ */
+export function getShutdownMethods(controller: any): Array<{
+  method: Function;
+  original: Function;
+  priority: number;
+}> {
+  const shutdownMethods: Array<{
+    method: Function;
+    original: Function;
+    priority: number;
+  }> = [];
+
+  const methods = Object.getOwnPropertyNames(Object.getPrototypeOf(controller));
+  methods.forEach((methodName) => {
+    if (methodName !== 'constructor') {
+      const method = controller[methodName];
+      if (typeof method === 'function') {
+        const metadata = decoratorMetadata.get(method);
+        if (
+          metadata &&
+          typeof (metadata as any).shutdownPriority === 'number'
+        ) {
+          shutdownMethods.push({
+            method: method.bind(controller),
+            original: method,
+            priority: (metadata as any).shutdownPriority,
+          });
+        }
+      }
+    }
+  });
+
+  return shutdownMethods;
+}
+
 /**
  * Add a ChatContext to a scheduled task
  */
@@ -262,3 +322,23 @@ export function scheduleMessage(
   const scheduler = BatchScheduler.getInstance();
   scheduler.scheduleMessage(id, roomId, message, scheduledTime, metadata);
 }
+
+/**
+ * Schedule a recurring message (cron expression or rule such as "every weekday 9:00")
+ */
+export function scheduleRecurringMessage(
+  id: string,
+  roomId: string,
+  message: string,
+  recurrence: string,
+  options?: ScheduledMessageOptions
+): ScheduledMessage {
+  const scheduler = BatchScheduler.getInstance();
+  return scheduler.scheduleRecurringMessage(
+    id,
+    roomId,
+    message,
+    recurrence,
+    options
+  );
+}
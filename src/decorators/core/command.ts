@@ -2,12 +2,29 @@
  * Command-related decorators for bot commands and command handling
  */
 
-import { ChatContext } from '@/types/models';
 import {
+  PermissionManager,
+  PermissionTarget,
+} from '@/services/bot/PermissionManager';
+import { ValidationError } from '@/types';
+import { ChatContext, User } from '@/types/models';
+import {
+  CommandArgumentError,
+  CommandArgumentSchema,
+  formatCommandUsage,
+  MentionArgument,
+  parseCommandArguments,
+} from './arguments';
+import {
+  commandGroupDescriptions,
   commandRegistry,
+  controllerGroupStorage,
   controllerPrefixStorage,
   decoratorMetadata,
+  getCommandGroupPath,
   getRegisteredCommands,
+  methodGroupDescriptions,
+  methodGroupStorage,
   methodPrefixStorage,
 } from './base';
 
@@ -33,10 +50,22 @@ export function Command(
   return descriptor;
 }
 
+export interface BotCommandOptions {
+  args?: CommandArgumentSchema; // 인자 스키마 (파싱된 값은 핸들러의 두 번째 인자로 전달)
+  priority?: number; // 디스패치 우선순위 (높을수록 먼저 실행, 기본: 컨트롤러 우선순위)
+}
+
 /**
  * Decorator for bot commands with automatic command matching
+ * @param commands - 명령어 또는 명령어 배열
+ * @param description - 도움말에 표시될 설명
+ * @param options - 인자 스키마 등 추가 옵션
  */
-export function BotCommand(commands: string | string[], description?: string) {
+export function BotCommand(
+  commands: string | string[],
+  description?: string,
+  options: BotCommandOptions = {}
+) {
   return function (
     target: any,
     propertyKey: string,
@@ -56,6 +85,9 @@ export function BotCommand(commands: string | string[], description?: string) {
     // Add all commands to metadata
     metadata.commands.push(...commandArray);
     metadata.hasDecorators = true;
+    if (options.priority !== undefined) {
+      metadata.priority = options.priority;
+    }
 
     // 여러 방식으로 메타데이터 저장 (AllowedRoom과 일관성 유지)
     decoratorMetadata.set(originalMethod, metadata);
@@ -63,13 +95,16 @@ export function BotCommand(commands: string | string[], description?: string) {
 
     // Register each command individually for help system and execution
     for (const command of commandArray) {
-      commandRegistry.set(command, {
+      commandRegistry.set(getCommandRegistryKey(target, propertyKey, command), {
         method: propertyKey,
         target: target.constructor.name,
+        controller: target.constructor,
         originalCommand: command,
         originalMethod: originalMethod,
         description: description,
         allCommands: commandArray, // Store all alternative commands
+        args: options.args,
+        priority: options.priority,
       });
     }
 
@@ -77,8 +112,171 @@ export function BotCommand(commands: string | string[], description?: string) {
   };
 }
 
+// 컨트롤러 클래스별 고유 번호 (이름이 같은 클래스의 명령어가 서로 덮어쓰지 않도록)
+const controllerIds = new WeakMap<Function, number>();
+let nextControllerId = 1;
+
+/**
+ * Helper function to build the registry key for a command
+ */
+function getCommandRegistryKey(
+  target: any,
+  propertyKey: string,
+  command: string
+): string {
+  let id = controllerIds.get(target.constructor);
+  if (id === undefined) {
+    id = nextControllerId++;
+    controllerIds.set(target.constructor, id);
+  }
+  return `${target.constructor.name}#${id}.${propertyKey}:${command}`;
+}
+
+interface HelpEntry {
+  fullCommands: string[];
+  description: string;
+  usage?: string;
+}
+
+export interface CommandTreeNode {
+  name: string;
+  path: string[];
+  description?: string;
+  entries: HelpEntry[];
+  children: Map<string, CommandTreeNode>;
+}
+
+/**
+ * Build the command group tree from the registry (used by help output)
+ * @param filter - 포함할 명령어 (예: 특정 봇에 등록된 컨트롤러의 명령어만)
+ */
+export function buildCommandTree(
+  filter?: (commandInfo: any) => boolean
+): CommandTreeNode {
+  const root: CommandTreeNode = {
+    name: '',
+    path: [],
+    entries: [],
+    children: new Map(),
+  };
+
+  // Group commands by method to avoid duplicates
+  const methodGroups = new Map<Function, { info: any; commands: string[] }>();
+  for (const commandInfo of getRegisteredCommands().values()) {
+    if (filter && !filter(commandInfo)) {
+      continue;
+    }
+    if (!methodGroups.has(commandInfo.originalMethod)) {
+      methodGroups.set(commandInfo.originalMethod, {
+        info: commandInfo,
+        commands: [],
+      });
+    }
+    methodGroups
+      .get(commandInfo.originalMethod)!
+      .commands.push(commandInfo.originalCommand);
+  }
+
+  // 메서드 그룹 설명은 컨트롤러 그룹 경로가 정해진 뒤 전체 경로로 변환
+  const descriptions = new Map(commandGroupDescriptions);
+  for (const [controller, groups] of methodGroupDescriptions) {
+    const classPath = controllerGroupStorage.get(controller) || [];
+    for (const [methodPath, description] of groups) {
+      descriptions.set([...classPath, methodPath].join(' '), description);
+    }
+  }
+
+  for (const { info, commands } of methodGroups.values()) {
+    const path = getCommandGroupPath(info.controller, info.originalMethod);
+
+    let node = root;
+    for (const name of path) {
+      if (!node.children.has(name)) {
+        const childPath = [...node.path, name];
+        node.children.set(name, {
+          name,
+          path: childPath,
+          description: descriptions.get(childPath.join(' ')),
+          entries: [],
+          children: new Map(),
+        });
+      }
+      node = node.children.get(name)!;
+    }
+
+    // Get full commands with prefix and group path for this controller
+    const fullCommands = commands
+      .map((baseCommand) =>
+        getFullCommand(info.controller, info.originalMethod, baseCommand)
+      )
+      .sort();
+
+    node.entries.push({
+      fullCommands,
+      description: info.description || '설명 없음',
+      usage: info.args
+        ? formatCommandUsage(fullCommands[0], info.args)
+        : undefined,
+    });
+  }
+
+  return root;
+}
+
+/**
+ * Count commands in a group and all of its sub-groups
+ */
+function countCommands(node: CommandTreeNode): number {
+  let count = node.entries.length;
+  for (const child of node.children.values()) {
+    count += countCommands(child);
+  }
+  return count;
+}
+
+/**
+ * Render one level of the command tree as help lines
+ */
+function renderHelpNode(node: CommandTreeNode, helpCommand: string): string[] {
+  const lines: string[] = [];
+
+  // Sort command groups alphabetically by primary command
+  const entries = [...node.entries].sort((a, b) =>
+    a.fullCommands[0].localeCompare(b.fullCommands[0])
+  );
+
+  for (const entry of entries) {
+    // Show alternative commands separated by |
+    lines.push(entry.fullCommands.join(' | '));
+    lines.push(` ⌊ ${entry.description}`);
+    if (entry.usage) {
+      lines.push(` ⌊ 사용법: ${entry.usage}`);
+    }
+    lines.push('');
+  }
+
+  const children = [...node.children.values()].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  for (const child of children) {
+    lines.push(`📂 ${child.path.join(' ')} (명령어 ${countCommands(child)}개)`);
+    lines.push(` ⌊ ${child.description || '설명 없음'}`);
+    if (child.children.size > 0) {
+      lines.push(
+        ` ⌊ 하위 그룹: ${[...child.children.keys()].sort().join(', ')}`
+      );
+    }
+    lines.push(` ⌊ 자세히: ${helpCommand} ${child.path.join(' ')}`);
+    lines.push('');
+  }
+
+  return lines;
+}
+
 /**
  * Decorator for help commands that automatically generates help text from registered commands
+ * `!help admin` shows the help of the `admin` command group
  */
 export function HelpCommand(command: string) {
   return function (
@@ -89,81 +287,62 @@ export function HelpCommand(command: string) {
     const originalMethod = descriptor.value;
 
     descriptor.value = async function (context: ChatContext) {
-      // Get bot instance for bot name
+      // Get the bot that received this message for its name and controllers
       const { Bot } = await import('@/services/bot/Bot');
-      const bot = Bot.getInstance();
+      const bot = Bot.getInstance(context.botName);
       const botName = bot?.name || '봇';
+      const controllers = bot?.getControllers();
 
-      // Generate help text from registered commands
-      const commands = getRegisteredCommands();
-      const helpLines: string[] = [];
-
-      // Add header with bot name
-      helpLines.push(`${botName} 도움말${'\u200b'.repeat(500)}`);
-      helpLines.push('');
-
-      // Group commands by method to avoid duplicates
-      const commandGroups = new Map<string, any>();
-
-      for (const [baseCommand, commandInfo] of commands) {
-        const methodKey = `${commandInfo.target}.${commandInfo.method}`;
+      const helpCommand = getFullCommand(
+        target.constructor,
+        originalMethod,
+        command
+      );
 
-        if (!commandGroups.has(methodKey)) {
-          commandGroups.set(methodKey, {
-            commands: [],
-            description: commandInfo.description || '설명 없음',
-            originalMethod: commandInfo.originalMethod,
-            target: commandInfo.target,
-          });
+      // Find the requested command group
+      const groupPath = (context.message.param || '')
+        .split(/\s+/)
+        .filter((token) => token.length > 0);
+
+      let node = buildCommandTree(
+        controllers &&
+          ((commandInfo) =>
+            controllers.some(
+              (controller) => controller instanceof commandInfo.controller
+            ))
+      );
+      for (const name of groupPath) {
+        const child = node.children.get(name);
+        if (!child) {
+          await context.reply(
+            `알 수 없는 명령어 그룹입니다: ${groupPath.join(' ')}`
+          );
+          return;
         }
-
-        commandGroups.get(methodKey)!.commands.push(baseCommand);
+        node = child;
       }
 
-      // Collect all command groups and sort them
-      const allCommandGroups: any[] = [];
-      for (const [methodKey, groupInfo] of commandGroups) {
-        // Get full commands with prefix for this controller
-        const fullCommands = groupInfo.commands.map((baseCommand: string) =>
-          getFullCommand(
-            target.constructor,
-            groupInfo.originalMethod,
-            baseCommand
-          )
-        );
-
-        // Sort commands within the group
-        fullCommands.sort();
+      const helpLines: string[] = [];
 
-        allCommandGroups.push({
-          fullCommands,
-          description: groupInfo.description,
-          primaryCommand: fullCommands[0], // Use first command for sorting
-        });
+      // Add header with bot name
+      const title =
+        groupPath.length > 0
+          ? `${botName} 도움말 - ${groupPath.join(' ')}`
+          : `${botName} 도움말`;
+      helpLines.push(title);
+      if (node.description) {
+        helpLines.push(node.description);
       }
+      helpLines.push('');
 
-      // Sort command groups alphabetically by primary command
-      allCommandGroups.sort((a, b) =>
-        a.primaryCommand.localeCompare(b.primaryCommand)
-      );
-
-      // Build help text in clean format
-      for (const group of allCommandGroups) {
-        if (group.fullCommands.length === 1) {
-          // Single command
-          helpLines.push(`${group.fullCommands[0]}`);
-        } else {
-          // Multiple commands - show alternatives
-          helpLines.push(`${group.fullCommands.join(' | ')}`);
-        }
-        helpLines.push(` ⌊ ${group.description}`);
-        helpLines.push('');
-      }
+      const bodyLines = renderHelpNode(node, helpCommand);
 
       // If no commands found, show a default message
-      if (allCommandGroups.length === 0) {
+      if (bodyLines.length === 0) {
         helpLines.push('등록된 명령어가 없습니다.');
       } else {
+        helpLines.push(...bodyLines);
+
         // Remove last empty line
         if (helpLines[helpLines.length - 1] === '') {
           helpLines.pop();
@@ -171,7 +350,7 @@ export function HelpCommand(command: string) {
       }
 
       const helpText = helpLines.join('\n');
-      await context.reply(helpText);
+      await context.reply(helpText, { fold: 'header' });
     };
 
     // Store metadata for controller scanning
@@ -186,9 +365,10 @@ export function HelpCommand(command: string) {
     decoratorMetadata.set(originalMethod, metadata);
 
     // Register help command
-    commandRegistry.set(command, {
+    commandRegistry.set(getCommandRegistryKey(target, propertyKey, command), {
       method: propertyKey,
       target: target.constructor.name,
+      controller: target.constructor,
       originalCommand: command,
       originalMethod: originalMethod,
       description: '도움말 표시',
@@ -198,6 +378,317 @@ export function HelpCommand(command: string) {
   };
 }
 
+type PermissionAction =
+  | 'grant'
+  | 'deny'
+  | 'revoke'
+  | 'assign'
+  | 'unassign'
+  | 'show'
+  | 'roles';
+
+const PERMISSION_ACTIONS: Record<string, PermissionAction> = {
+  부여: 'grant',
+  거부: 'deny',
+  회수: 'revoke',
+  역할부여: 'assign',
+  역할회수: 'unassign',
+  확인: 'show',
+  역할목록: 'roles',
+  grant: 'grant',
+  deny: 'deny',
+  revoke: 'revoke',
+  assign: 'assign',
+  unassign: 'unassign',
+  show: 'show',
+  roles: 'roles',
+};
+
+const PERMISSION_TARGET_SCHEMA = (name: string, description: string) => ({
+  args: [
+    { name, description },
+    { name: 'target', type: 'mention' as const, optional: true },
+  ],
+  flags: [{ name: 'global', alias: 'g', description: '모든 방에 적용' }],
+});
+
+const PERMISSION_SCHEMAS: Record<PermissionAction, CommandArgumentSchema> = {
+  grant: PERMISSION_TARGET_SCHEMA('permission', '권한 (예: music.skip)'),
+  deny: PERMISSION_TARGET_SCHEMA('permission', '권한 (예: music.skip)'),
+  revoke: PERMISSION_TARGET_SCHEMA('permission', '권한 (예: music.skip)'),
+  assign: PERMISSION_TARGET_SCHEMA('role', '역할 이름'),
+  unassign: PERMISSION_TARGET_SCHEMA('role', '역할 이름'),
+  show: { args: [{ name: 'target', type: 'mention', optional: true }] },
+  roles: {},
+};
+
+/**
+ * Decorator for a built-in command that manages permissions from the chat
+ * `!권한 부여 music.skip @사용자` (멘션이 없으면 방 전체, `--global`이면 모든 방, 전역 권한 관리자만 사용 가능)
+ * `!권한 거부|회수 <권한> [@사용자]`, `!권한 역할부여|역할회수 <역할> [@사용자]`
+ * `!권한 확인 [@사용자]`, `!권한 역할목록`
+ * @param command - 명령어
+ * @param permission - 명령어 사용에 필요한 권한 (기본: 'permissions.manage')
+ */
+export function PermissionCommand(
+  command: string,
+  permission: string = 'permissions.manage'
+) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+
+    descriptor.value = async function (context: ChatContext) {
+      const permissions = PermissionManager.getInstance();
+      const fullCommand =
+        context.message.command ||
+        getFullCommand(target.constructor, originalMethod, command);
+
+      const actionName = (context.message.param || '').split(/\s+/)[0];
+      const action = PERMISSION_ACTIONS[actionName];
+      if (!action) {
+        await context.reply(
+          [
+            '사용법:',
+            `${fullCommand} 부여|거부|회수 <권한> [@사용자] [--global]`,
+            `${fullCommand} 역할부여|역할회수 <역할> [@사용자] [--global]`,
+            `${fullCommand} 확인 [@사용자]`,
+            `${fullCommand} 역할목록`,
+          ].join('\n')
+        );
+        return;
+      }
+
+      // 확인과 역할목록은 누구나 사용할 수 있음
+      if (
+        action !== 'show' &&
+        action !== 'roles' &&
+        !(await permissions.can(context, permission))
+      ) {
+        await context.reply('권한을 관리할 권한이 없습니다.');
+        return;
+      }
+
+      // 동작 이름까지 포함한 명령어 뒤의 인자를 파싱
+      const text =
+        typeof context.message.msg === 'string' ? context.message.msg : '';
+      const actionCommand =
+        text.match(new RegExp(`^${escapeRegExp(fullCommand)}\\s+\\S+`))?.[0] ||
+        `${fullCommand} ${actionName}`;
+      const schema = PERMISSION_SCHEMAS[action];
+
+      let args;
+      try {
+        args = parseCommandArguments(context.message, actionCommand, schema);
+      } catch (error) {
+        if (!(error instanceof CommandArgumentError)) {
+          throw error;
+        }
+        await context.reply(
+          `${error.message}\n사용법: ${formatCommandUsage(actionCommand, schema)}`
+        );
+        return;
+      }
+
+      const roomId = context.room.getIdAsString();
+      const mention: MentionArgument | undefined = args.target;
+
+      if (action === 'roles') {
+        const lines = permissions.listRoles().map((role) => {
+          const inherits = role.inherits?.length
+            ? ` (상속: ${role.inherits.join(', ')})`
+            : '';
+          const granted = role.permissions.length
+            ? role.permissions.join(', ')
+            : '없음';
+          return `${role.name}${inherits}${role.description ? ` - ${role.description}` : ''}\n ⌊ 권한: ${granted}`;
+        });
+        await context.reply(['역할 목록', '', ...lines].join('\n'));
+        return;
+      }
+
+      if (action === 'show') {
+        const user = mention
+          ? new User(mention.userId, context.room.id, context.api, mention.name)
+          : context.sender;
+        const userId = user.getIdAsString();
+        const subject = {
+          userId,
+          roomId,
+          memberType: await user.getType(),
+        };
+        const format = (list: string[]) =>
+          list.length > 0 ? list.join(', ') : '없음';
+
+        const roomUserGrant = await permissions.getGrant({ userId, roomId });
+        const userGrant = await permissions.getGrant({ userId });
+        const roomGrant = await permissions.getGrant({ roomId });
+
+        await context.reply(
+          [
+            `${mention?.name || (await user.getName()) || userId} 권한 정보`,
+            `역할: ${format(await permissions.getRoles(subject))}`,
+            `이 방 권한: ${format(roomUserGrant.permissions)}`,
+            `전역 권한: ${format(userGrant.permissions)}`,
+            `방 공통 권한: ${format(roomGrant.permissions)}`,
+          ].join('\n')
+        );
+        return;
+      }
+
+      if (args.global && !mention) {
+        await context.reply('--global 옵션은 사용자를 멘션해야 합니다.');
+        return;
+      }
+
+      // 방장 등 방 단위로만 권한을 관리할 수 있는 사용자는 다른 방이나 관리자 권한을 다룰 수 없음
+      const globalManager = await permissions.hasPermission(
+        { userId: context.sender.getIdAsString() },
+        permission
+      );
+      if (args.global && !globalManager) {
+        await context.reply(
+          '--global 옵션은 모든 방에서 권한 관리 권한이 있는 사용자만 사용할 수 있습니다.'
+        );
+        return;
+      }
+      if (
+        !globalManager &&
+        ((action === 'grant' &&
+          permissions.isPrivilegedPermission(args.permission, [permission])) ||
+          (action === 'assign' &&
+            permissions.isPrivilegedRole(args.role, [permission])))
+      ) {
+        await context.reply(
+          '관리자 권한과 권한 관리 권한은 모든 방에서 권한 관리 권한이 있는 사용자만 부여할 수 있습니다.'
+        );
+        return;
+      }
+
+      const grantTarget: PermissionTarget = mention
+        ? {
+            userId: mention.userId.toString(),
+            roomId: args.global ? undefined : roomId,
+          }
+        : { roomId };
+      const who = `${mention ? `${mention.name}님` : '이 방의 모든 사용자'}${args.global ? ' (모든 방)' : ''}`;
+
+      try {
+        switch (action) {
+          case 'grant':
+            await permissions.grant(grantTarget, args.permission);
+            await context.reply(
+              `${who}에게 ${args.permission} 권한을 부여했습니다.`
+            );
+            break;
+          case 'deny':
+            await permissions.deny(grantTarget, args.permission);
+            await context.reply(
+              `${who}의 ${args.permission} 권한을 거부했습니다.`
+            );
+            break;
+          case 'revoke':
+            await context.reply(
+              (await permissions.revoke(grantTarget, args.permission))
+                ? `${who}의 ${args.permission} 권한 설정을 회수했습니다.`
+                : `${who}에게 설정된 ${args.permission} 권한이 없습니다.`
+            );
+            break;
+          case 'assign':
+            await permissions.assignRole(grantTarget, args.role);
+            await context.reply(`${who}에게 ${args.role} 역할을 부여했습니다.`);
+            break;
+          case 'unassign':
+            await context.reply(
+              (await permissions.unassignRole(grantTarget, args.role))
+                ? `${who}의 ${args.role} 역할을 회수했습니다.`
+                : `${who}에게 부여된 ${args.role} 역할이 없습니다.`
+            );
+            break;
+        }
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        await context.reply(
+          action === 'assign'
+            ? `알 수 없는 역할입니다: ${args.role}`
+            : `올바르지 않은 권한입니다: ${args.permission}`
+        );
+      }
+    };
+
+    // Store metadata for controller scanning
+    const metadata = decoratorMetadata.get(originalMethod) || {
+      commands: [],
+      hasDecorators: false,
+    };
+
+    metadata.commands.push(command);
+    metadata.hasDecorators = true;
+    decoratorMetadata.set(originalMethod, metadata);
+
+    commandRegistry.set(getCommandRegistryKey(target, propertyKey, command), {
+      method: propertyKey,
+      target: target.constructor.name,
+      controller: target.constructor,
+      originalCommand: command,
+      originalMethod: originalMethod,
+      description: '권한 관리',
+    });
+
+    return descriptor;
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Command group decorator for classes and methods
+ * Class groups come first, method groups are appended (e.g. `!admin role add`)
+ * @param name - 그룹 이름 (공백으로 구분하여 중첩 경로 지정 가능, 예: 'admin role')
+ * @param description - 그룹별 도움말에 표시될 설명
+ */
+export function CommandGroup(
+  name: string,
+  description?: string
+): ClassDecorator & MethodDecorator {
+  const path = name.split(/\s+/).filter((token) => token.length > 0);
+
+  return function (
+    target: any,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): any {
+    // Method decorator: group is appended to the controller group path
+    if (propertyKey && descriptor) {
+      methodGroupStorage.set(descriptor.value, path);
+
+      if (description) {
+        if (!methodGroupDescriptions.has(target.constructor)) {
+          methodGroupDescriptions.set(target.constructor, new Map());
+        }
+        methodGroupDescriptions
+          .get(target.constructor)!
+          .set(path.join(' '), description);
+      }
+      return descriptor;
+    }
+
+    // Class decorator: target is the constructor
+    controllerGroupStorage.set(target, path);
+    if (description) {
+      commandGroupDescriptions.set(path.join(' '), description);
+    }
+    return target;
+  };
+}
+
 /**
  * Helper function to get the full command with prefix for a controller and method
  */
@@ -219,7 +710,39 @@ export function getFullCommand(
     }
   }
 
-  return prefix + baseCommand;
+  const groupPath = getCommandGroupPath(controllerConstructor, methodFunction);
+  return prefix + [...groupPath, baseCommand].join(' ');
+}
+
+/**
+ * Find registered commands matching a message, keeping only the most specific ones
+ * (e.g. `!admin ban` wins over `!admin` for the message `!admin ban user`)
+ */
+export function findMatchingCommands(
+  messageText: string
+): Array<{ commandInfo: any; fullCommand: string }> {
+  let matches: Array<{ commandInfo: any; fullCommand: string }> = [];
+
+  for (const commandInfo of getRegisteredCommands().values()) {
+    const fullCommand = getFullCommand(
+      commandInfo.controller,
+      commandInfo.originalMethod,
+      commandInfo.originalCommand
+    );
+
+    if (!isCommandMatch(messageText, fullCommand)) {
+      continue;
+    }
+
+    const bestLength = matches.length > 0 ? matches[0].fullCommand.length : 0;
+    if (fullCommand.length > bestLength) {
+      matches = [{ commandInfo, fullCommand }];
+    } else if (fullCommand.length === bestLength) {
+      matches.push({ commandInfo, fullCommand });
+    }
+  }
+
+  return matches;
 }
 
 /**
@@ -2,74 +2,89 @@
  * Controller class decorators for event registration
  */
 
-import { registerController } from './base';
+import {
+  controllerPriorityStorage,
+  registerController,
+  setControllerBots,
+} from './base';
+
+export interface ControllerOptions {
+  priority?: number; // 디스패치 우선순위 (높을수록 먼저 실행, 기본: 0)
+  bot?: string | string[]; // 이 컨트롤러를 사용할 봇 이름 (기본: 모든 봇)
+}
+
+export type ControllerConstructor = { new (...args: any[]): {} };
+
+export interface ControllerDecorator {
+  <T extends ControllerConstructor>(constructor: T): T;
+  (
+    options: ControllerOptions
+  ): <T extends ControllerConstructor>(constructor: T) => T;
+}
 
 /**
- * Class decorator for MessageController
+ * Helper function to create controller decorators
+ * `@MessageController` 또는 `@MessageController({ priority: 10 })` 형태로 사용
  */
-export function MessageController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  registerController('message', constructor);
-  return constructor;
+export function createControllerDecorator(
+  eventType: string,
+  onRegister?: (constructor: ControllerConstructor) => void
+): ControllerDecorator {
+  const register = <T extends ControllerConstructor>(
+    constructor: T,
+    options: ControllerOptions = {}
+  ): T => {
+    if (options.priority !== undefined) {
+      controllerPriorityStorage.set(constructor, options.priority);
+    }
+    if (options.bot !== undefined) {
+      setControllerBots(constructor, options.bot);
+    }
+    registerController(eventType, constructor);
+    onRegister?.(constructor);
+    return constructor;
+  };
+
+  return ((constructorOrOptions: ControllerConstructor | ControllerOptions) => {
+    if (typeof constructorOrOptions === 'function') {
+      return register(constructorOrOptions);
+    }
+    return <T extends ControllerConstructor>(constructor: T) =>
+      register(constructor, constructorOrOptions);
+  }) as ControllerDecorator;
 }
 
+/**
+ * Class decorator for MessageController
+ */
+export const MessageController = createControllerDecorator('message');
+
 /**
  * Class decorator for NewMemberController
  */
-export function NewMemberController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  registerController('new_member', constructor);
-  return constructor;
-}
+export const NewMemberController = createControllerDecorator('new_member');
 
 /**
  * Class decorator for DeleteMemberController
  */
-export function DeleteMemberController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  registerController('del_member', constructor);
-  return constructor;
-}
+export const DeleteMemberController = createControllerDecorator('del_member');
 
 /**
  * Class decorator for ErrorController
  */
-export function ErrorController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  registerController('error', constructor);
-  return constructor;
-}
+export const ErrorController = createControllerDecorator('error');
 
 /**
  * Class decorator for FeedController
  */
-export function FeedController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  registerController('feed', constructor);
-  return constructor;
-}
+export const FeedController = createControllerDecorator('feed');
 
 /**
  * Class decorator for UnknownController
  */
-export function UnknownController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  registerController('unknown', constructor);
-  return constructor;
-}
+export const UnknownController = createControllerDecorator('unknown');
 
 /**
  * Class decorator for ChatController (handles all chat events)
  */
-export function ChatController<T extends { new (...args: any[]): {} }>(
-  constructor: T
-) {
-  registerController('chat', constructor);
-  return constructor;
-}
+export const ChatController = createControllerDecorator('chat');
@@ -18,12 +18,12 @@ function createMessageHandlerDecorator(
   ) {
     const originalMethod = descriptor.value;
 
-    descriptor.value = async function (context: ChatContext) {
+    descriptor.value = async function (context: ChatContext, ...args: any[]) {
       if (!condition(context)) {
         return;
       }
 
-      return originalMethod.call(this, context);
+      return originalMethod.call(this, context, ...args);
     };
 
     // Register metadata using function properties
@@ -44,15 +44,41 @@ function createMessageHandlerDecorator(
   };
 }
 
+export interface MessageHandlerOptions {
+  priority?: number; // 디스패치 우선순위 (높을수록 먼저 실행, 기본: 컨트롤러 우선순위)
+}
+
 /**
  * Decorator that executes on every message (regardless of command)
  * Useful for logging, monitoring, or general message processing
+ * `@OnMessage` 또는 `@OnMessage({ priority: 10 })` 형태로 사용
  */
+export function OnMessage(
+  options: MessageHandlerOptions
+): (target: any, propertyKey: string, descriptor: PropertyDescriptor) => void;
 export function OnMessage(
   target: any,
   propertyKey: string,
   descriptor: PropertyDescriptor
-) {
+): PropertyDescriptor;
+export function OnMessage(
+  targetOrOptions: any,
+  propertyKey?: string,
+  descriptor?: PropertyDescriptor
+): any {
+  if (propertyKey === undefined || descriptor === undefined) {
+    const options: MessageHandlerOptions = targetOrOptions || {};
+    return (target: any, key: string, desc: PropertyDescriptor) =>
+      markMessageHandler(desc, options);
+  }
+
+  return markMessageHandler(descriptor, {});
+}
+
+function markMessageHandler(
+  descriptor: PropertyDescriptor,
+  options: MessageHandlerOptions
+): PropertyDescriptor {
   const originalMethod = descriptor.value;
 
   // Mark as message handler for controller scanning
@@ -60,6 +86,7 @@ export function OnMessage(
     commands: [],
     hasDecorators: true,
     isMessageHandler: true,
+    priority: options.priority,
   };
 
   // 여러 방식으로 메타데이터 저장 (AllowedRoom과 일관성 유지)
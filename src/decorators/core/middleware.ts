@@ -0,0 +1,83 @@
+/**
+ * Middleware decorators and composition
+ */
+
+import { ChatContext } from '@/types/models';
+import type { Middleware, NextFunction } from './base';
+import { controllerMiddlewareStorage } from './base';
+
+/**
+ * Compose middleware into a single function (runs in registration order)
+ */
+export function composeMiddleware(middlewares: Middleware[]) {
+  return function (context: ChatContext, next: NextFunction): Promise<void> {
+    let index = -1;
+
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) {
+        throw new Error('next() called multiple times');
+      }
+      index = i;
+
+      if (i === middlewares.length) {
+        return next();
+      }
+      await middlewares[i](context, () => dispatch(i + 1));
+    };
+
+    return dispatch(0);
+  };
+}
+
+/**
+ * Middleware decorator for controllers and methods
+ * Class: 컨트롤러의 모든 핸들러 실행 전후에 적용
+ * Method: 해당 메소드 실행 전후에 적용
+ * @param middlewares - 적용할 미들웨어 (순서대로 실행)
+ */
+export function UseMiddleware(
+  ...middlewares: Middleware[]
+): ClassDecorator & MethodDecorator {
+  return function (
+    target: any,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): any {
+    // Class decorator: target is the constructor
+    if (propertyKey === undefined) {
+      const existing = controllerMiddlewareStorage.get(target) || [];
+      // 데코레이터는 아래에서 위로 적용되므로 앞에 추가
+      controllerMiddlewareStorage.set(target, [...middlewares, ...existing]);
+      return target;
+    }
+
+    // Method decorator
+    if (descriptor) {
+      const originalMethod = descriptor.value;
+      const run = composeMiddleware(middlewares);
+
+      descriptor.value = async function (context: ChatContext, ...args: any[]) {
+        let result: any;
+        await run(context, async () => {
+          result = await originalMethod.call(this, context, ...args);
+        });
+        return result;
+      };
+
+      return descriptor;
+    }
+  };
+}
+
+/**
+ * Get the middleware registered for a controller class (including parent classes)
+ */
+export function getControllerMiddlewares(constructor: Function): Middleware[] {
+  const chain: Middleware[] = [];
+  let current: any = constructor;
+  while (current && current !== Function.prototype) {
+    chain.unshift(...(controllerMiddlewareStorage.get(current) || []));
+    current = Object.getPrototypeOf(current);
+  }
+  return chain;
+}
@@ -2,9 +2,17 @@
  * Validation decorators for parameter, role, and permission checking
  */
 
+import { BanManager } from '@/services/bot/BanManager';
+import { PermissionManager } from '@/services/bot/PermissionManager';
+import {
+  RateLimiter,
+  RateLimitAlgorithm,
+  RateLimitScope,
+} from '@/services/core/RateLimiter';
+import { StorageAdapter } from '@/services/storage';
 import { ChatContext } from '@/types/models';
 import type { DecoratorHandler } from './base';
-import { decoratorMetadata, throttleStorage } from './base';
+import { decoratorMetadata, getGlobalDebugLogger } from './base';
 
 /**
  * Decorator that only executes if message has parameters
@@ -16,12 +24,12 @@ export function HasParam(
 ) {
   const originalMethod = descriptor.value;
 
-  descriptor.value = async function (context: ChatContext) {
+  descriptor.value = async function (context: ChatContext, ...args: any[]) {
     if (!context.message.hasParam) {
       return;
     }
 
-    return originalMethod.call(this, context);
+    return originalMethod.call(this, context, ...args);
   };
 
   return descriptor;
@@ -37,12 +45,12 @@ export function IsReply(
 ) {
   const originalMethod = descriptor.value;
 
-  descriptor.value = async function (context: ChatContext) {
+  descriptor.value = async function (context: ChatContext, ...args: any[]) {
     if (!context.message.isReplyMessage()) {
       return;
     }
 
-    return originalMethod.call(this, context);
+    return originalMethod.call(this, context, ...args);
   };
 
   return descriptor;
@@ -52,6 +60,7 @@ export function IsReply(
  * Decorator that only executes if user has specific roles
  * @param allowedRoles - 허용된 역할 배열
  * @param callback - 권한이 없을 때 실행될 콜백 함수
+ * @param options.inherit - true이면 상속한 역할도 확인 (예: HOST는 MANAGER, NORMAL로도 인정, 기본: false)
  */
 export function HasRole(
   allowedRoles: string[],
@@ -59,7 +68,8 @@ export function HasRole(
     context: ChatContext,
     allowedRoles: string[],
     userRole: string | null
-  ) => Promise<void>
+  ) => Promise<void>,
+  options: { inherit?: boolean } = {}
 ) {
   return function (
     target: any,
@@ -68,10 +78,17 @@ export function HasRole(
   ) {
     const originalMethod = descriptor.value;
 
-    descriptor.value = async function (context: ChatContext) {
-      const userType = await context.sender.getType();
+    descriptor.value = async function (context: ChatContext, ...args: any[]) {
+      const permissions = PermissionManager.getInstance();
+      const subject = await permissions.getContextSubject(context);
+      const userType = subject.memberType ?? null;
+      // 멤버 타입과 부여된 역할 중 하나라도 허용되면 실행
+      const roles = await permissions.getRoles(
+        subject,
+        options.inherit === true
+      );
 
-      if (!userType || !allowedRoles.includes(userType)) {
+      if (!roles.some((role) => allowedRoles.includes(role))) {
         if (callback) {
           await callback(context, allowedRoles, userType);
           return;
@@ -80,7 +97,7 @@ export function HasRole(
         return;
       }
 
-      return originalMethod.call(this, context);
+      return originalMethod.call(this, context, ...args);
     };
 
     return descriptor;
@@ -88,7 +105,8 @@ export function HasRole(
 }
 
 /**
- * Decorator that only executes if user is admin (HOST or MANAGER)
+ * Decorator that only executes if user has the `admin` permission
+ * (HOST and MANAGER by default, see PermissionManager)
  */
 export function IsAdmin(
   target: any,
@@ -97,19 +115,60 @@ export function IsAdmin(
 ) {
   const originalMethod = descriptor.value;
 
-  descriptor.value = async function (context: ChatContext) {
-    const userType = await context.sender.getType();
-
-    if (userType !== 'HOST' && userType !== 'MANAGER') {
+  descriptor.value = async function (context: ChatContext, ...args: any[]) {
+    if (!(await PermissionManager.getInstance().can(context, 'admin'))) {
       return;
     }
 
-    return originalMethod.call(this, context);
+    return originalMethod.call(this, context, ...args);
   };
 
   return descriptor;
 }
 
+/**
+ * Decorator that only executes if user has all of the given permissions
+ * @param permission - 필요한 권한 (예: 'music.skip') 또는 권한 배열
+ * @param callback - 권한이 없을 때 실행될 콜백 함수 (부족한 권한 목록 전달)
+ */
+export function RequirePermission(
+  permission: string | string[],
+  callback?: (context: ChatContext, missing: string[]) => Promise<void>
+) {
+  const required = Array.isArray(permission) ? permission : [permission];
+
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+
+    descriptor.value = async function (context: ChatContext, ...args: any[]) {
+      const permissions = PermissionManager.getInstance();
+      const subject = await permissions.getContextSubject(context);
+
+      const missing: string[] = [];
+      for (const name of required) {
+        if (!(await permissions.hasPermission(subject, name))) {
+          missing.push(name);
+        }
+      }
+
+      if (missing.length > 0) {
+        if (callback) {
+          await callback(context, missing);
+        }
+        return;
+      }
+
+      return originalMethod.call(this, context, ...args);
+    };
+
+    return descriptor;
+  };
+}
+
 /**
  * Decorator that only executes if user is not banned
  */
@@ -120,24 +179,31 @@ export function IsNotBanned(
 ) {
   const originalMethod = descriptor.value;
 
-  descriptor.value = async function (context: ChatContext) {
-    const isBanned = await checkIfUserIsBanned(context.sender.getIdAsString());
+  descriptor.value = async function (context: ChatContext, ...args: any[]) {
+    const isBanned = await checkIfUserIsBanned(context);
 
     if (isBanned) {
       return;
     }
 
-    return originalMethod.call(this, context);
+    return originalMethod.call(this, context, ...args);
   };
 
   return descriptor;
 }
 
+export interface ThrottleOptions {
+  algorithm?: RateLimitAlgorithm; // 기본: 'sliding-window'
+  scope?: RateLimitScope; // 기본: 'user+room' (방 안의 사용자별)
+  adapter?: StorageAdapter; // 기본: 봇 저장소 (BotOptions.storage)
+}
+
 /**
  * Decorator for throttling commands (rate limiting)
  * @param maxCalls - 최대 호출 횟수
  * @param windowMs - 시간 창 (밀리초)
  * @param callback - 제한 시 실행될 콜백 함수
+ * @param options - 제한 알고리즘, 범위, 저장소
  */
 export function Throttle(
   maxCalls: number,
@@ -147,7 +213,8 @@ export function Throttle(
     maxCalls: number,
     windowMs: number,
     msUntilNext: number
-  ) => Promise<void>
+  ) => Promise<void>,
+  options: ThrottleOptions = {}
 ) {
   return function (
     target: any,
@@ -155,39 +222,29 @@ export function Throttle(
     descriptor: PropertyDescriptor
   ) {
     const originalMethod = descriptor.value;
+    const limiter = new RateLimiter(
+      `${target.constructor.name}.${propertyKey}`,
+      { limit: maxCalls, windowMs, ...options }
+    );
 
-    descriptor.value = async function (context: ChatContext) {
-      const userId = context.sender.getIdAsString();
-      const methodKey = `room${context.room.getIdAsString()}.${target.constructor.name}.${propertyKey}`;
-      const now = Date.now();
-
-      if (!throttleStorage.has(methodKey)) {
-        throttleStorage.set(methodKey, new Map<string, number[]>());
+    descriptor.value = async function (context: ChatContext, ...args: any[]) {
+      let result;
+      try {
+        result = await limiter.consumeContext(context);
+      } catch (error) {
+        // 저장소 오류 시에는 제한하지 않고 실행
+        getGlobalDebugLogger().error('Failed to check throttle:', error);
+        return originalMethod.call(this, context, ...args);
       }
 
-      const userThrottle = throttleStorage.get(methodKey)!;
-      const userCalls = userThrottle.get(userId) || [];
-
-      // Remove calls outside the window
-      const validCalls = userCalls.filter(
-        (callTime) => now - callTime < windowMs
-      );
-
-      if (validCalls.length >= maxCalls) {
-        // User has exceeded the limit
+      if (!result.allowed) {
         if (callback) {
-          const oldestCall = Math.min(...validCalls);
-          const msUntilNext = windowMs - (now - oldestCall);
-          await callback(context, maxCalls, windowMs, msUntilNext);
+          await callback(context, maxCalls, windowMs, result.retryAfterMs);
         }
         return;
       }
 
-      // Add current call and update storage
-      validCalls.push(now);
-      userThrottle.set(userId, validCalls);
-
-      return originalMethod.call(this, context);
+      return originalMethod.call(this, context, ...args);
     };
 
     return descriptor;
@@ -286,13 +343,13 @@ export function AllowedRoom(
 }
 
 /**
- * Helper function to check if user is banned
+ * Helper function to check if user is banned (globally or in the current room)
  */
-async function checkIfUserIsBanned(userId: string): Promise<boolean> {
-  // Placeholder implementation - you can extend this with actual ban checking logic
-  // For example, check against a database or cache
-  const bannedUsers: string[] = []; // Load from your ban system
-  return bannedUsers.includes(userId);
+async function checkIfUserIsBanned(context: ChatContext): Promise<boolean> {
+  return BanManager.getInstance().isBanned(
+    context.sender.getIdAsString(),
+    context.room.getIdAsString()
+  );
 }
 
 /**
@@ -321,9 +378,7 @@ export const decorators = {
 
   isAdmin: (handler: DecoratorHandler): DecoratorHandler => {
     return async (context: ChatContext) => {
-      const userType = await context.sender.getType();
-
-      if (userType !== 'HOST' && userType !== 'MANAGER') {
+      if (!(await PermissionManager.getInstance().can(context, 'admin'))) {
         return;
       }
 
@@ -333,9 +388,7 @@ export const decorators = {
 
   isNotBanned: (handler: DecoratorHandler): DecoratorHandler => {
     return async (context: ChatContext) => {
-      const isBanned = await checkIfUserIsBanned(
-        context.sender.getIdAsString()
-      );
+      const isBanned = await checkIfUserIsBanned(context);
 
       if (isBanned) {
         return;
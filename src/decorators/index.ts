@@ -6,7 +6,7 @@
  */
 
 // Re-export base types and utilities
-export type { DecoratorHandler } from './core/base';
+export type { DecoratorHandler, Middleware, NextFunction } from './core/base';
 export {
   setGlobalDebugLogger,
   getGlobalDebugLogger,
@@ -16,7 +16,11 @@ export {
   getBootstrapControllers,
   clearUserThrottle,
   clearAllThrottle,
+  getCommandGroupPath,
   getControllerPrefix,
+  getControllerPriority,
+  isControllerForBot,
+  setControllerBots,
   getMethodPrefix,
   setControllerPrefix,
   setMethodPrefix,
@@ -35,12 +39,40 @@ export {
   UnknownController,
   ChatController,
 } from './core/controller';
+export type { ControllerOptions } from './core/controller';
+
+// Re-export middleware
+export {
+  composeMiddleware,
+  getControllerMiddlewares,
+  UseMiddleware,
+} from './core/middleware';
+
+// Re-export command argument parsing
+export type {
+  CommandArgumentDefinition,
+  CommandArgumentSchema,
+  CommandArgumentType,
+  CommandFlagDefinition,
+  MentionArgument,
+  ParsedCommandArguments,
+} from './core/arguments';
+export {
+  CommandArgumentError,
+  formatCommandUsage,
+  parseCommandArguments,
+} from './core/arguments';
 
 // Re-export command decorators
+export type { BotCommandOptions, CommandTreeNode } from './core/command';
 export {
   Command,
   BotCommand,
   HelpCommand,
+  PermissionCommand,
+  CommandGroup,
+  buildCommandTree,
+  findMatchingCommands,
   getFullCommand,
   isCommandMatch,
   Prefix,
@@ -75,6 +107,7 @@ export {
   getMessageHandlers,
   getDecoratedMethods,
 } from './core/message';
+export type { MessageHandlerOptions } from './core/message';
 
 // Re-export validation decorators
 export {
@@ -83,6 +116,7 @@ export {
   HasRole,
   IsAdmin,
   IsNotBanned,
+  RequirePermission,
   Throttle,
   AllowedRoom,
   decorators,
@@ -92,6 +126,7 @@ export {
   isNotBanned,
   debugRoomRestrictions,
 } from './core/validation';
+export type { ThrottleOptions } from './core/validation';
 
 // Re-export batch and scheduling decorators
 export {
@@ -100,9 +135,12 @@ export {
   Schedule,
   ScheduleMessage,
   Bootstrap,
+  Shutdown,
   getScheduleMethods,
   getScheduleMessageMethods,
   getBootstrapMethods,
+  getShutdownMethods,
   addContextToSchedule,
   scheduleMessage,
+  scheduleRecurringMessage,
 } from './core/batch';
@@ -5,8 +5,83 @@
 // Main classes
 import './paths'; // Ensure path aliases are registered
 export { Bot } from './services/bot/Bot';
+export { BanManager } from './services/bot/BanManager';
+export { BotManager } from './services/bot/BotManager';
+export type { BotDefinition } from './services/bot/BotManager';
+export type {
+  BanAuditAction,
+  BanAuditEntry,
+  BanAuditQuery,
+  BanEntry,
+  BanListOptions,
+  BanOptions,
+  UnbanOptions,
+} from './services/bot/BanManager';
+export {
+  Conversation,
+  ConversationManager,
+  PromptAbortedError,
+} from './services/bot/ConversationManager';
+export type {
+  PromptAbortReason,
+  PromptOptions,
+  PromptValidator,
+  WizardStep,
+} from './services/bot/ConversationManager';
+export {
+  matchPermission,
+  PermissionManager,
+} from './services/bot/PermissionManager';
+export type {
+  PermissionGrant,
+  PermissionSubject,
+  PermissionTarget,
+  RoleDefinition,
+  RoleOptions,
+} from './services/bot/PermissionManager';
 export { BatchScheduler } from './services/core/BatchScheduler';
+export type {
+  BatchSchedulerOptions,
+  MissedFirePolicy,
+  ScheduledMessage,
+  ScheduledMessageOptions,
+  ScheduledMessageUpdate,
+} from './services/core/BatchScheduler';
+export { CircuitBreaker } from './services/core/CircuitBreaker';
+export type {
+  CircuitBreakerOptions,
+  CircuitClosedEvent,
+  CircuitHalfOpenEvent,
+  CircuitOpenEvent,
+  CircuitState,
+  CircuitStats,
+} from './services/core/CircuitBreaker';
 export { IrisAPI } from './services/core/IrisAPI';
+export type {
+  IrisApiOptions,
+  IrisApiRequest,
+  IrisApiResponseInfo,
+  IrisCallPolicy,
+  IrisCallType,
+  IrisRequestInterceptor,
+  IrisResponseInterceptor,
+} from './services/core/IrisAPI';
+export { OutboundDispatcher } from './services/core/OutboundDispatcher';
+export type {
+  DeadLetter,
+  OutboundOptions,
+  OutboundRetryOptions,
+  OutboundStats,
+  SendRate,
+} from './services/core/OutboundDispatcher';
+export { RateLimiter } from './services/core/RateLimiter';
+export type {
+  RateLimitAlgorithm,
+  RateLimiterOptions,
+  RateLimitResult,
+  RateLimitScope,
+  RateLimitSubject,
+} from './services/core/RateLimiter';
 export {
   KakaoLink,
   KakaoLink2FAException,
@@ -17,6 +92,55 @@ export {
 } from './services/core/IrisLink';
 export { defaultLogger, Logger, LogLevel } from './utils/logger';
 
+// Storage
+export {
+  ContextStorage,
+  createStorageAdapter,
+  getScopedStorage,
+  getStorageAdapter,
+  JsonFileStorageAdapter,
+  MemoryStorageAdapter,
+  ScopedStorage,
+  setStorageAdapter,
+  SqliteStorageAdapter,
+} from './services/storage';
+export type {
+  JsonFileStorageOptions,
+  MemoryStorageOptions,
+  SqliteStorageOptions,
+  StorageAdapter,
+  StorageOptions,
+  StorageSetOptions,
+  StorageUpdate,
+} from './services/storage';
+
+// KakaoTalk database
+export {
+  Decryptor,
+  FriendRepository,
+  getDatabase,
+  IrisDatabase,
+  MemberRepository,
+  MessageRepository,
+  OpenProfileRepository,
+  Repository,
+  RoomRepository,
+} from './services/database';
+export type {
+  ChatRoomRow,
+  DatabaseApi,
+  DbId,
+  DecryptApi,
+  DecryptionOptions,
+  DecryptionStats,
+  FriendRow,
+  MessageQueryOptions,
+  MessageRow,
+  OpenChatMemberRow,
+  OpenProfileRow,
+  QueryApi,
+} from './services/database';
+
 // Alias for compatibility with Python irispy-client module
 export {
   KakaoLink as IrisLink,
@@ -39,6 +163,27 @@ export {
   Room,
   User,
 } from './types/models';
+export type {
+  IrisAotResponse,
+  IrisConfigResponse,
+  IrisDecryptResponse,
+  IrisQueryResponse,
+  IrisReplyResponse,
+} from './types/models';
+
+// Errors
+export {
+  IrisApiError,
+  IrisCircuitOpenError,
+  IrisDecodeError,
+  IrisError,
+  IrisNetworkError,
+  IrisResponseError,
+  IrisTimeoutError,
+  isRetryableError,
+  ProcessingError,
+  ValidationError,
+} from './types';
 
 // Controllers
 export { BaseController } from './controllers/BaseController';
@@ -52,8 +197,11 @@ export {
   Bootstrap,
   BootstrapController,
   BotCommand,
+  buildCommandTree,
   ChatController,
   clearAllThrottle,
+  CommandArgumentError,
+  CommandGroup,
   clearUserThrottle,
   Command,
   // Controller class decorators
@@ -64,6 +212,7 @@ export {
   DeleteMemberController,
   ErrorController,
   FeedController,
+  formatCommandUsage,
   getBatchControllers,
   getBootstrapControllers,
   getBootstrapMethods,
@@ -72,6 +221,7 @@ export {
   getRegisteredControllers,
   getScheduleMessageMethods,
   getScheduleMethods,
+  getShutdownMethods,
   // Method decorators
   HasParam,
   // Function decorators (backward compatibility)
@@ -112,24 +262,91 @@ export {
   OnPromoteManagerFeed,
   OnReplyMessage,
   OnVideoMessage,
+  parseCommandArguments,
+  PermissionCommand,
   Prefix,
+  RequirePermission,
   Schedule,
   ScheduleMessage,
   scheduleMessage,
+  scheduleRecurringMessage,
+  Shutdown,
   Throttle,
   UnknownController,
+  UseMiddleware,
+} from './decorators';
+
+export type {
+  BotCommandOptions,
+  CommandArgumentDefinition,
+  CommandArgumentSchema,
+  CommandArgumentType,
+  CommandFlagDefinition,
+  CommandTreeNode,
+  ControllerOptions,
+  MentionArgument,
+  MessageHandlerOptions,
+  Middleware,
+  NextFunction,
+  ParsedCommandArguments,
+  ThrottleOptions,
 } from './decorators';
 
 // Utils
 export { Config } from './utils/config';
 export { EventEmitter } from './utils/event-emitter';
+export {
+  getNextOccurrence,
+  isValidRecurrence,
+  isValidTimeZone,
+  parseRecurrence,
+} from './utils/recurrence';
+export type { RecurrenceRule } from './utils/recurrence';
+export { FOLD_MARKER, foldMessage, splitMessage } from './utils/message-format';
+export type { FoldMode, ReplyOptions } from './utils/message-format';
+export { ConcurrencyLimiter } from './utils/concurrency-limiter';
+export type {
+  ConcurrencyLimiterOptions,
+  ConcurrencyStats,
+} from './utils/concurrency-limiter';
+export { TaskQueue } from './utils/task-queue';
+export type {
+  QueueOverflowPolicy,
+  TaskQueueOptions,
+  TaskQueueStats,
+} from './utils/task-queue';
 
 // Types
 export type {
   BotOptions,
   ErrorHandler,
   EventHandler,
+  ShutdownOptions,
+  StopOptions,
 } from './services/bot/Bot';
+export type {
+  BackfillOptions,
+  ConnectedEvent,
+  ConnectionManagerOptions,
+  ConnectionState,
+  DisconnectedEvent,
+  ReconnectingEvent,
+} from './services/bot/ConnectionManager';
+export type {
+  DeduplicationOptions,
+  DeduplicationStats,
+} from './services/bot/EventDeduplicator';
+export { ModelCache } from './services/bot/ModelCache';
+export type {
+  ModelCacheOptions,
+  ModelCacheStats,
+} from './services/bot/ModelCache';
+export type {
+  DispatchOrderEntry,
+  EventOrdering,
+  EventSchedulerStats,
+} from './services/bot/EventManager';
+export type { WebhookOptions } from './services/bot/WebhookManager';
 
 // Version
 export const version = '1.6.44';
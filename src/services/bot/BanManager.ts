@@ -0,0 +1,300 @@
+/**
+ * Ban list management: global, per-room and temporary bans with an audit trail
+ */
+
+import { getScopedStorage } from '@/services/storage';
+import { Config } from '@/utils/config';
+import { Logger } from '@/utils/logger';
+
+export interface BanEntry {
+  userId: string;
+  roomId?: string; // 없으면 전역 차단
+  reason?: string;
+  bannedBy?: string;
+  createdAt: number;
+  expiresAt?: number; // 없으면 영구 차단
+}
+
+export interface BanOptions {
+  roomId?: string; // 지정하면 해당 방에서만 차단
+  reason?: string;
+  bannedBy?: string;
+  durationMs?: number; // 임시 차단 기간
+  expiresAt?: number; // 임시 차단 만료 시각 (durationMs보다 우선)
+}
+
+export interface UnbanOptions {
+  roomId?: string;
+  reason?: string;
+  unbannedBy?: string;
+}
+
+export interface BanListOptions {
+  roomId?: string; // 지정하면 해당 방의 차단 목록만 조회
+  includeGlobal?: boolean; // roomId 지정 시 전역 차단도 포함 (기본: true)
+}
+
+export type BanAuditAction = 'ban' | 'unban' | 'expire';
+
+export interface BanAuditEntry {
+  action: BanAuditAction;
+  userId: string;
+  roomId?: string;
+  reason?: string;
+  actor?: string;
+  expiresAt?: number;
+  timestamp: number;
+}
+
+export interface BanAuditQuery {
+  userId?: string;
+  roomId?: string;
+  limit?: number; // 최신 항목부터 최대 개수
+}
+
+const AUDIT_KEY = 'audit';
+const MAX_AUDIT_ENTRIES = 1000;
+
+export class BanManager {
+  private static instance: BanManager | null = null;
+
+  private logger: Logger = new Logger('BanManager');
+  // BANNED_USERS 환경 변수에서 읽은 전역 차단 (저장소에 저장하지 않음)
+  private configBans = new Map<string, BanEntry>();
+  private auditQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    this.seedFromConfig();
+  }
+
+  static getInstance(): BanManager {
+    if (!BanManager.instance) {
+      BanManager.instance = new BanManager();
+    }
+    return BanManager.instance;
+  }
+
+  /**
+   * Ban a user globally or in a specific room
+   */
+  async ban(userId: string, options: BanOptions = {}): Promise<BanEntry> {
+    const now = Date.now();
+    const entry: BanEntry = {
+      userId: String(userId),
+      roomId: options.roomId !== undefined ? String(options.roomId) : undefined,
+      reason: options.reason,
+      bannedBy: options.bannedBy,
+      createdAt: now,
+      expiresAt:
+        options.expiresAt ??
+        (options.durationMs !== undefined
+          ? now + options.durationMs
+          : undefined),
+    };
+
+    await this.storage().set(this.getKey(entry.userId, entry.roomId), entry);
+    await this.audit({
+      action: 'ban',
+      userId: entry.userId,
+      roomId: entry.roomId,
+      reason: entry.reason,
+      actor: entry.bannedBy,
+      expiresAt: entry.expiresAt,
+      timestamp: now,
+    });
+
+    this.logger.info(
+      `Banned user ${entry.userId}${entry.roomId ? ` in room ${entry.roomId}` : ' globally'}${entry.expiresAt ? ` until ${new Date(entry.expiresAt).toISOString()}` : ''}`
+    );
+    return entry;
+  }
+
+  /**
+   * Remove a global or per-room ban
+   * @returns 차단이 해제되었으면 true
+   */
+  async unban(userId: string, options: UnbanOptions = {}): Promise<boolean> {
+    const id = String(userId);
+    const roomId =
+      options.roomId !== undefined ? String(options.roomId) : undefined;
+
+    let removed = await this.storage().delete(this.getKey(id, roomId));
+    if (roomId === undefined && this.configBans.delete(id)) {
+      removed = true;
+    }
+
+    if (removed) {
+      await this.audit({
+        action: 'unban',
+        userId: id,
+        roomId,
+        reason: options.reason,
+        actor: options.unbannedBy,
+        timestamp: Date.now(),
+      });
+      this.logger.info(
+        `Unbanned user ${id}${roomId ? ` in room ${roomId}` : ' globally'}`
+      );
+    }
+
+    return removed;
+  }
+
+  /**
+   * Check if a user is banned globally or in the given room
+   */
+  async isBanned(userId: string, roomId?: string): Promise<boolean> {
+    return (await this.getBan(userId, roomId)) !== undefined;
+  }
+
+  /**
+   * Get the ban that applies to a user (global ban first, then room ban)
+   */
+  async getBan(userId: string, roomId?: string): Promise<BanEntry | undefined> {
+    const id = String(userId);
+
+    const configBan = this.configBans.get(id);
+    if (configBan) {
+      return configBan;
+    }
+
+    const globalBan = await this.readBan(this.getKey(id));
+    if (globalBan) {
+      return globalBan;
+    }
+
+    return roomId !== undefined
+      ? this.readBan(this.getKey(id, String(roomId)))
+      : undefined;
+  }
+
+  /**
+   * List active bans
+   */
+  async list(options: BanListOptions = {}): Promise<BanEntry[]> {
+    const roomId =
+      options.roomId !== undefined ? String(options.roomId) : undefined;
+    const includeGlobal =
+      roomId === undefined || options.includeGlobal !== false;
+
+    const prefixes = [roomId !== undefined ? `room:${roomId}:` : 'room:'];
+    if (includeGlobal) {
+      prefixes.push('global:');
+    }
+
+    const entries: BanEntry[] = includeGlobal
+      ? Array.from(this.configBans.values())
+      : [];
+    const storage = this.storage();
+    for (const key of await storage.keys()) {
+      if (!prefixes.some((prefix) => key.startsWith(prefix))) continue;
+
+      const entry = await this.readBan(key);
+      // 설정 파일의 전역 차단과 중복되는 항목은 제외
+      if (
+        entry &&
+        (entry.roomId !== undefined || !this.configBans.has(entry.userId))
+      ) {
+        entries.push(entry);
+      }
+    }
+
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Get the ban audit trail (newest first)
+   */
+  async getAuditLog(query: BanAuditQuery = {}): Promise<BanAuditEntry[]> {
+    await this.auditQueue;
+    const log = (await this.storage().get<BanAuditEntry[]>(AUDIT_KEY)) || [];
+
+    const filtered = log
+      .filter(
+        (entry) =>
+          (query.userId === undefined || entry.userId === query.userId) &&
+          (query.roomId === undefined || entry.roomId === query.roomId)
+      )
+      .reverse();
+
+    return query.limit !== undefined
+      ? filtered.slice(0, query.limit)
+      : filtered;
+  }
+
+  private storage() {
+    return getScopedStorage('bans');
+  }
+
+  private getKey(userId: string, roomId?: string): string {
+    return roomId !== undefined
+      ? `room:${roomId}:${userId}`
+      : `global:${userId}`;
+  }
+
+  /**
+   * Read a ban entry, removing it if it has expired
+   */
+  private async readBan(key: string): Promise<BanEntry | undefined> {
+    const entry = await this.storage().get<BanEntry>(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      if (await this.storage().delete(key)) {
+        await this.audit({
+          action: 'expire',
+          userId: entry.userId,
+          roomId: entry.roomId,
+          expiresAt: entry.expiresAt,
+          timestamp: Date.now(),
+        });
+        this.logger.info(`Ban expired for user ${entry.userId}`);
+      }
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  // 감사 로그는 하나의 키에 저장되므로 순서대로 기록
+  private audit(entry: BanAuditEntry): Promise<void> {
+    this.auditQueue = this.auditQueue
+      .then(async () => {
+        const storage = this.storage();
+        const log = (await storage.get<BanAuditEntry[]>(AUDIT_KEY)) || [];
+        log.push(entry);
+        await storage.set(AUDIT_KEY, log.slice(-MAX_AUDIT_ENTRIES));
+      })
+      .catch((error) => {
+        this.logger.error('Failed to write ban audit log:', error);
+      });
+    return this.auditQueue;
+  }
+
+  private seedFromConfig(): void {
+    let bannedUsers: string[] = [];
+    try {
+      bannedUsers = Config.getInstance().bannedUsers;
+    } catch {
+      // IRIS_URL이 없으면 Config를 사용할 수 없으므로 무시
+      return;
+    }
+
+    for (const userId of bannedUsers.filter((id) => id.length > 0)) {
+      this.configBans.set(userId, {
+        userId,
+        reason: 'BANNED_USERS',
+        bannedBy: 'config',
+        createdAt: Date.now(),
+      });
+    }
+
+    if (this.configBans.size > 0) {
+      this.logger.info(
+        `Loaded ${this.configBans.size} banned users from configuration`
+      );
+    }
+  }
+}
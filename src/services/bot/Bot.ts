@@ -3,40 +3,108 @@
  */
 
 import { BaseController } from '@/controllers/BaseController';
-import { setGlobalDebugLogger } from '@/decorators';
+import { Middleware, setGlobalDebugLogger } from '@/decorators';
 import {
   BatchScheduler,
+  BatchSchedulerOptions,
   ScheduledMessage,
 } from '@/services/core/BatchScheduler';
-import { IrisAPI } from '@/services/core/IrisAPI';
+import {
+  CircuitClosedEvent,
+  CircuitHalfOpenEvent,
+  CircuitOpenEvent,
+  CircuitStats,
+} from '@/services/core/CircuitBreaker';
+import { IrisAPI, IrisApiOptions } from '@/services/core/IrisAPI';
+import {
+  DecryptionOptions,
+  getDatabase,
+  IrisDatabase,
+} from '@/services/database';
+import {
+  DeadLetter,
+  OutboundOptions,
+  OutboundStats,
+} from '@/services/core/OutboundDispatcher';
+import {
+  createStorageAdapter,
+  getStorageAdapter,
+  setStorageAdapter,
+  StorageAdapter,
+  StorageOptions,
+} from '@/services/storage';
 import { IrisRequest } from '@/types/models/base';
 import { EventEmitter } from '@/utils/event-emitter';
 import { Logger } from '@/utils/logger';
-import { ConnectionManager } from './ConnectionManager';
+import { TaskQueueStats } from '@/utils/task-queue';
+import {
+  ConnectedEvent,
+  ConnectionManager,
+  ConnectionManagerOptions,
+  ConnectionState,
+  DisconnectedEvent,
+  ReconnectingEvent,
+} from './ConnectionManager';
 import { ControllerManager } from './ControllerManager';
-import { EventManager } from './EventManager';
+import { ConversationManager } from './ConversationManager';
+import { DeduplicationOptions, DeduplicationStats } from './EventDeduplicator';
+import {
+  DispatchOrderEntry,
+  EventManager,
+  EventOrdering,
+  EventSchedulerStats,
+} from './EventManager';
 import { MessageProcessor } from './MessageProcessor';
-import { WebhookManager } from './WebhookManager';
+import { ModelCacheOptions, ModelCacheStats } from './ModelCache';
+import { WebhookManager, WebhookOptions } from './WebhookManager';
 
 export type EventHandler = (context: any) => void | Promise<void>;
 export type ErrorHandler = (context: any) => void | Promise<void>;
 
 export interface BotOptions {
-  maxWorkers?: number;
+  maxWorkers?: number; // 동시에 처리할 최대 이벤트 수 (기본: 제한 없음)
+  eventOrdering?: EventOrdering; // 'room' 또는 'user'이면 같은 방/사용자의 이벤트를 순서대로 하나씩 처리
   saveChatLogs?: boolean;
   autoRegisterControllers?: boolean;
   httpMode?: boolean; // HTTP 웹훅 모드 활성화
   webhookPort?: number; // 웹훅 서버 포트 (기본: 3001)
   webhookPath?: string; // 웹훅 엔드포인트 경로 (기본: /webhook/message)
+  webhook?: WebhookOptions; // 웹훅 인증(secret, HMAC), IP 허용 목록, 본문 크기 제한
   logLevel?: 'error' | 'warn' | 'info' | 'debug'; // 로그 레벨 설정
+  storage?: StorageOptions | StorageAdapter; // 상태 저장소 (기본: 메모리)
+  scheduler?: BatchSchedulerOptions; // 예약 메시지 놓친 발송 정책, 기본 타임존
+  dropBannedUserEvents?: boolean; // 차단된 사용자의 이벤트를 컨트롤러 실행 전에 무시
+  connection?: ConnectionManagerOptions; // WebSocket 재연결, heartbeat 설정
+  deduplication?: DeduplicationOptions; // 같은 로그 ID의 이벤트 중복 처리 방지
+  modelCache?: ModelCacheOptions; // 이벤트 간 Room, User 정보 공유 (이름, 권한 조회 횟수 감소)
+  shutdown?: ShutdownOptions; // 종료 시 대기 시간, SIGINT/SIGTERM 자동 처리
+  outbound?: OutboundOptions; // 보내는 메시지의 전송 속도 제한, 재시도
+  api?: Omit<IrisApiOptions, 'outbound'>; // Iris API 호출별 시간 제한, 재시도, 인터셉터, 장애 시 차단
+  decryption?: DecryptionOptions; // DB 조회 결과의 암호화된 메시지, 닉네임 복호화
 }
 
+export interface ShutdownOptions {
+  timeoutMs?: number; // 진행 중인 핸들러와 답장을 기다리는 최대 시간 (기본: 10초)
+  handleSignals?: boolean; // SIGINT/SIGTERM을 받으면 bot.stop() 후 프로세스 종료 (기본: false)
+}
+
+export interface StopOptions {
+  timeoutMs?: number; // 기본: ShutdownOptions.timeoutMs
+}
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10 * 1000;
+
 export class Bot {
+  // 기본 봇 (Bot.getInstance(), BatchScheduler.getInstance()를 사용하는 봇)
   private static instance: Bot | null = null;
+  // 실행 중인 봇 (이름별)
+  private static instances = new Map<string, Bot>();
   private static globalLogLevel: 'error' | 'warn' | 'info' | 'debug' = 'info';
 
   // Core components
   private logger: Logger;
+  private storage?: StorageAdapter; // storage 옵션으로 지정한 저장소 (없으면 전역 저장소 사용)
   private bootstrapLogger: Logger;
   public api: IrisAPI;
   public name: string;
@@ -53,6 +121,10 @@ export class Bot {
   // Configuration
   private httpMode: boolean;
   private emitter: EventEmitter;
+  private shutdownOptions: ShutdownOptions;
+  private stopping?: Promise<void>;
+  private signalHandler?: (signal: NodeJS.Signals) => void;
+  private scheduledMessageHandler?: (message: ScheduledMessage) => void;
 
   /**
    * Get global log level for debugging
@@ -70,7 +142,8 @@ export class Bot {
 
   constructor(name: string, irisUrl: string, options: BotOptions = {}) {
     this.name = name;
-    this.emitter = new EventEmitter(options.maxWorkers);
+    this.emitter = new EventEmitter();
+    this.shutdownOptions = options.shutdown || {};
 
     // EventEmitter 메모리 누수 방지를 위해 maxListeners 증가
     process.setMaxListeners(20);
@@ -91,19 +164,13 @@ export class Bot {
     });
     setGlobalDebugLogger(debugLogger);
 
-    // Set static instance
-    Bot.instance = this;
-
-    // HTTP 웹훅 모드 설정
-    this.httpMode = options.httpMode || false;
-
     // Clean up the URL similar to Python implementation
     this.irisUrl = irisUrl
       .replace(/^https?:\/\//, '')
       .replace(/^wss?:\/\//, '')
       .replace(/\/$/, '');
 
-    // Validate URL format
+    // Validate URL format (잘못된 주소면 봇을 등록하기 전에 실패)
     const urlParts = this.irisUrl.split(':');
     if (urlParts.length !== 2 || urlParts[0].split('.').length !== 4) {
       throw new Error(
@@ -111,7 +178,32 @@ export class Bot {
       );
     }
 
-    this.api = new IrisAPI(`http://${this.irisUrl}`);
+    // 봇별 저장소 (예약 메시지, 중복 이벤트 기록, context.storage)
+    if (options.storage) {
+      this.storage = createStorageAdapter(options.storage);
+    }
+
+    // 처음 생성된 봇이 기본 봇이 되며, 이후 생성된 봇은 독립된 스케줄러를 사용
+    if (Bot.instances.has(name)) {
+      this.logger.warn(`Bot named ${name} already exists and will be replaced`);
+    }
+    Bot.register(this);
+
+    // 기본 봇의 저장소는 전역 저장소로도 사용 (throttle, 권한, 차단, 카카오링크 쿠키 등)
+    if (this.storage && Bot.instance === this) {
+      setStorageAdapter(this.storage);
+    }
+
+    // HTTP 웹훅 모드 설정
+    this.httpMode = options.httpMode || false;
+
+    this.api = new IrisAPI(`http://${this.irisUrl}`, {
+      ...options.api,
+      outbound: options.outbound,
+    });
+    if (options.decryption) {
+      getDatabase(this.api).decryptor.configure(options.decryption);
+    }
 
     // Initialize managers
     this.initializeManagers(options);
@@ -121,32 +213,52 @@ export class Bot {
    * Initialize all manager instances
    */
   private initializeManagers(options: BotOptions): void {
-    // Initialize BatchScheduler
-    this.batchScheduler = BatchScheduler.getInstance();
+    // Initialize BatchScheduler (기본 봇 외에는 봇별 스케줄러와 저장소 키 사용)
+    this.batchScheduler =
+      Bot.instance === this
+        ? BatchScheduler.getInstance()
+        : new BatchScheduler(`scheduler:${this.name}`, () => this.getStorage());
+    if (options.scheduler) {
+      this.batchScheduler.configure(options.scheduler);
+    }
 
     // Initialize EventManager
-    this.eventManager = new EventManager(this.emitter, this.logger);
+    this.eventManager = new EventManager(this.emitter, this.logger, {
+      maxWorkers: options.maxWorkers,
+      ordering: options.eventOrdering,
+    });
 
     // Initialize MessageProcessor
-    this.messageProcessor = new MessageProcessor(this.eventManager, this.api);
+    this.messageProcessor = new MessageProcessor(this.eventManager, this.api, {
+      dropBannedUserEvents: options.dropBannedUserEvents,
+      deduplication: options.deduplication,
+      modelCache: options.modelCache,
+      botName: this.name,
+      storage: () => this.getStorage(),
+    });
 
     // Initialize ControllerManager
     this.controllerManager = new ControllerManager(
       this.bootstrapLogger,
       this.batchScheduler,
       this.eventManager,
-      { autoRegisterControllers: options.autoRegisterControllers }
+      {
+        autoRegisterControllers: options.autoRegisterControllers,
+        botName: this.name,
+      }
     );
 
     // Initialize ConnectionManager
     this.connectionManager = new ConnectionManager(
       this.irisUrl,
       this.api,
-      this.logger
+      this.logger,
+      options.connection
     );
 
     // Initialize WebhookManager
     this.webhookManager = new WebhookManager(this.name, this.logger, {
+      ...options.webhook,
       port: options.webhookPort,
       path: options.webhookPath,
     });
@@ -164,6 +276,22 @@ export class Bot {
       await this.messageProcessor.processIrisRequest(data);
     });
 
+    // Forward connection state changes as bot events
+    this.connectionManager.setEventHandler((event, data) => {
+      if (event === 'connected') {
+        const botId = this.connectionManager.getBotId();
+        if (botId) {
+          this.messageProcessor.setBotId(botId);
+        }
+      }
+      this.emitter.emit(event, [data]);
+    });
+
+    // Forward circuit breaker state changes as bot events
+    this.api.setCircuitEventHandler((event, data) => {
+      this.emitter.emit(event, [data]);
+    });
+
     // Setup message handler for webhook manager
     this.webhookManager.setMessageHandler(async (data: IrisRequest) => {
       await this.messageProcessor.processIrisRequest(data);
@@ -171,22 +299,40 @@ export class Bot {
   }
 
   /**
-   * Get the current Bot instance
+   * Get a bot by name, or the default bot (the first bot created) when no name is given
    */
-  static getInstance(): Bot | null {
+  static getInstance(name?: string): Bot | null {
+    if (name !== undefined) {
+      return Bot.instances.get(name) || null;
+    }
     return Bot.instance;
   }
 
   /**
    * Get the current Bot instance (throws if not initialized)
    */
-  static requireInstance(): Bot {
-    if (!Bot.instance) {
+  static requireInstance(name?: string): Bot {
+    const bot = Bot.getInstance(name);
+    if (!bot) {
       throw new Error(
         'Bot instance not initialized. Create a Bot instance first.'
       );
     }
-    return Bot.instance;
+    return bot;
+  }
+
+  private static register(bot: Bot): void {
+    Bot.instances.set(bot.name, bot);
+    if (!Bot.instance) {
+      Bot.instance = bot;
+    }
+  }
+
+  /**
+   * Get all bots that have not been stopped
+   */
+  static getInstances(): Bot[] {
+    return Array.from(Bot.instances.values());
   }
 
   /**
@@ -220,10 +366,48 @@ export class Bot {
   on(event: 'feed', handler: EventHandler): void;
   on(event: 'unknown', handler: EventHandler): void;
   on(event: 'error', handler: ErrorHandler): void;
+  on(
+    event: 'connected',
+    handler: (event: ConnectedEvent) => void | Promise<void>
+  ): void;
+  on(
+    event: 'disconnected',
+    handler: (event: DisconnectedEvent) => void | Promise<void>
+  ): void;
+  on(
+    event: 'reconnecting',
+    handler: (event: ReconnectingEvent) => void | Promise<void>
+  ): void;
+  on(
+    event: 'circuit_open',
+    handler: (event: CircuitOpenEvent) => void | Promise<void>
+  ): void;
+  on(
+    event: 'circuit_half_open',
+    handler: (event: CircuitHalfOpenEvent) => void | Promise<void>
+  ): void;
+  on(
+    event: 'circuit_closed',
+    handler: (event: CircuitClosedEvent) => void | Promise<void>
+  ): void;
   on(event: string, handler: EventHandler | ErrorHandler): void {
     this.eventManager.on(event as any, handler as any);
   }
 
+  /**
+   * Add a middleware that runs before controller dispatch for every chat event
+   * @example
+   * bot.use(async (context, next) => {
+   *   const start = Date.now();
+   *   await next();
+   *   console.log(`${context.event} handled in ${Date.now() - start}ms`);
+   * });
+   */
+  use(middleware: Middleware): this {
+    this.eventManager.use(middleware);
+    return this;
+  }
+
   /**
    * Remove event handler
    */
@@ -245,6 +429,27 @@ export class Bot {
     this.controllerManager.addControllers(...controllers);
   }
 
+  /**
+   * Get the controllers registered with this bot
+   */
+  getControllers(): BaseController[] {
+    return this.controllerManager.getControllers();
+  }
+
+  /**
+   * Get the scheduler of this bot
+   */
+  getScheduler(): BatchScheduler {
+    return this.batchScheduler;
+  }
+
+  /**
+   * Get the storage of this bot (the shared storage unless the storage option was given)
+   */
+  getStorage(): StorageAdapter {
+    return this.storage || getStorageAdapter();
+  }
+
   /**
    * Register controllers from constructor classes
    */
@@ -252,10 +457,100 @@ export class Bot {
     this.controllerManager.registerControllers(controllerClasses);
   }
 
+  /**
+   * Get the WebSocket connection state
+   */
+  getConnectionState(): ConnectionState {
+    return this.connectionManager.getState();
+  }
+
+  /**
+   * Get outgoing message queue statistics
+   */
+  getOutboundStats(): OutboundStats {
+    return this.api.getOutboundStats();
+  }
+
+  /**
+   * Get the most recent messages that could not be sent
+   */
+  getDeadLetters(): DeadLetter[] {
+    return this.api.getDeadLetters();
+  }
+
+  /**
+   * Typed access to the KakaoTalk database (rooms, messages, members, friends, openProfiles)
+   */
+  get db(): IrisDatabase {
+    return getDatabase(this.api);
+  }
+
+  /**
+   * Get the Iris API circuit breaker state (closed, open, half_open)
+   */
+  getCircuitStats(): CircuitStats {
+    return this.api.getCircuitStats();
+  }
+
+  /**
+   * Get queue length and wait time statistics of incoming events
+   */
+  getEventSchedulerStats(): EventSchedulerStats {
+    return this.eventManager.getSchedulerStats();
+  }
+
+  /**
+   * Get duplicate event statistics
+   */
+  getDeduplicationStats(): DeduplicationStats {
+    return this.messageProcessor.getDeduplicationStats();
+  }
+
+  /**
+   * Get hit/miss statistics of the Room and User cache shared across events
+   */
+  getModelCacheStats(): ModelCacheStats {
+    return this.messageProcessor.getModelCacheStats();
+  }
+
+  /**
+   * Get the webhook queue statistics (undefined unless webhook.ackMode is 'async')
+   */
+  getWebhookQueueStats(): TaskQueueStats | undefined {
+    return this.webhookManager.getQueueStats();
+  }
+
+  /**
+   * Get the resolved handler order of controllers for each event
+   */
+  getDispatchOrder(): Map<string, DispatchOrderEntry[]> {
+    return this.eventManager.getDispatchOrder();
+  }
+
   /**
    * Start the bot and connect to Iris server
    */
   async run(): Promise<void> {
+    // 중지 후 다시 실행하는 경우
+    if (!Bot.instances.has(this.name)) {
+      Bot.register(this);
+    }
+    this.stopping = undefined;
+
+    if (this.shutdownOptions.handleSignals) {
+      this.installSignalHandlers();
+    }
+
+    // 컨트롤러 핸들러 실행 순서 출력 (debug)
+    this.eventManager.logDispatchOrder();
+
+    // Restore persisted scheduler state
+    try {
+      await this.batchScheduler.restore();
+    } catch (error) {
+      this.logger.error('Failed to restore scheduler state:', error);
+    }
+
     // Run bootstrap handlers first
     try {
       this.logger.info('Running bootstrap handlers...');
@@ -268,9 +563,11 @@ export class Bot {
     this.batchScheduler.start();
     this.logger.info('Batch scheduler started');
 
-    // Set up scheduled message handler
-    this.batchScheduler.onScheduledMessage(
-      async (scheduledMessage: ScheduledMessage) => {
+    // Set up scheduled message handler (다시 실행해도 한 번만 등록)
+    if (!this.scheduledMessageHandler) {
+      this.scheduledMessageHandler = async (
+        scheduledMessage: ScheduledMessage
+      ) => {
         try {
           await this.api.reply(
             scheduledMessage.roomId,
@@ -282,8 +579,9 @@ export class Bot {
         } catch (error) {
           this.logger.error('Failed to send scheduled message:', error);
         }
-      }
-    );
+      };
+      this.batchScheduler.onScheduledMessage(this.scheduledMessageHandler);
+    }
 
     // HTTP 웹훅 모드인 경우
     if (this.httpMode) {
@@ -320,18 +618,151 @@ export class Bot {
 
   /**
    * Stop the bot
+   * 새 이벤트 수신을 멈추고 진행 중인 핸들러와 답장이 끝나기를 기다린 뒤 @Shutdown 핸들러 실행
    */
-  stop(): void {
-    // Stop batch scheduler
-    this.batchScheduler.stop();
+  stop(options: StopOptions = {}): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.shutdown(
+        options.timeoutMs ??
+          this.shutdownOptions.timeoutMs ??
+          DEFAULT_SHUTDOWN_TIMEOUT_MS
+      );
+    }
+    return this.stopping;
+  }
+
+  private async shutdown(timeoutMs: number): Promise<void> {
+    this.logger.info('Stopping bot...');
 
-    // Close connections
+    // Stop accepting new events
     this.connectionManager.close();
     this.webhookManager.stop();
 
+    // Stop batch scheduler
+    this.batchScheduler.stop();
+    if (this.scheduledMessageHandler) {
+      this.batchScheduler.offScheduledMessage(this.scheduledMessageHandler);
+      this.scheduledMessageHandler = undefined;
+    }
+
+    // Abort prompts waiting for an answer (기다리는 핸들러가 바로 끝나도록)
+    ConversationManager.getInstance().cancelAll(this.name);
+
+    // Wait for in-flight handlers and replies
+    if (!(await this.drain(timeoutMs))) {
+      this.logger.warn(
+        `Shutdown timed out after ${timeoutMs}ms, stopping with work in progress`,
+        {
+          events: this.messageProcessor.getInFlightCount(),
+          handlers: this.emitter.getInFlightCount(),
+          replies: this.api.getPendingReplyCount(),
+        }
+      );
+    }
+
+    // Run @Shutdown handlers and wait for the replies they send
+    await this.batchScheduler.runShutdown();
+    if (!(await this.drain(timeoutMs))) {
+      this.logger.warn(
+        `Replies sent by shutdown handlers did not finish within ${timeoutMs}ms`,
+        { replies: this.api.getPendingReplyCount() }
+      );
+    }
+
+    // Fail replies still buffered while Iris is unavailable
+    this.api.close();
+
     // Clear static instance
+    if (Bot.instances.get(this.name) === this) {
+      Bot.instances.delete(this.name);
+    }
+    // 기본 봇이 중지되면 실행 중인 다른 봇을 기본 봇으로 사용
     if (Bot.instance === this) {
-      Bot.instance = null;
+      Bot.instance = Bot.instances.values().next().value ?? null;
+    }
+
+    // Flush pending storage writes (전역 저장소는 모든 봇이 공유하므로 마지막 봇이 중지될 때)
+    const storages = new Set<StorageAdapter>();
+    if (this.storage && this.storage !== getStorageAdapter()) {
+      storages.add(this.storage);
+    }
+    if (Bot.instances.size === 0) {
+      storages.add(getStorageAdapter());
+    }
+    for (const storage of storages) {
+      try {
+        await storage.close();
+      } catch (error) {
+        this.logger.error('Failed to close storage:', error);
+      }
+    }
+
+    this.removeSignalHandlers();
+    this.logger.info('Bot stopped');
+  }
+
+  /**
+   * Wait until no event, handler or reply is in progress
+   * @returns 시간 안에 모두 끝났으면 true
+   */
+  private async drain(timeoutMs: number): Promise<boolean> {
+    const idle = (async () => {
+      await this.webhookManager.onIdle();
+      await this.messageProcessor.onIdle();
+      await this.emitter.onIdle();
+      await this.api.waitForPendingReplies();
+      return true;
+    })();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([idle, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private installSignalHandlers(): void {
+    if (this.signalHandler) {
+      return;
+    }
+
+    this.signalHandler = (signal) => {
+      // 종료 중에 다시 받으면 기다리지 않고 종료
+      if (this.stopping) {
+        this.logger.warn(`Received ${signal} again, exiting immediately`);
+        process.exit(1);
+      }
+
+      this.logger.info(`Received ${signal}, shutting down...`);
+      this.stop()
+        .catch((error) => {
+          this.logger.error('Shutdown failed:', error);
+        })
+        .finally(() => {
+          // 다른 봇이 아직 실행 중이면 해당 봇이 종료할 때 프로세스 종료
+          if (Bot.instances.size === 0) {
+            process.exit(0);
+          }
+        });
+    };
+
+    for (const signal of SHUTDOWN_SIGNALS) {
+      process.on(signal, this.signalHandler);
+    }
+  }
+
+  private removeSignalHandlers(): void {
+    if (!this.signalHandler) {
+      return;
+    }
+    for (const signal of SHUTDOWN_SIGNALS) {
+      process.off(signal, this.signalHandler);
     }
+    this.signalHandler = undefined;
   }
 }
@@ -0,0 +1,130 @@
+/**
+ * Run several bots (one per Iris device) in one process
+ */
+
+import { ValidationError } from '@/types';
+import { Logger } from '@/utils/logger';
+import { Bot, BotOptions, StopOptions } from './Bot';
+
+export interface BotDefinition {
+  name: string;
+  irisUrl: string;
+  options?: BotOptions;
+}
+
+export class BotManager {
+  private logger: Logger = new Logger('BotManager');
+  private bots = new Map<string, Bot>();
+  private runs = new Map<string, Promise<void>>();
+
+  constructor(definitions: BotDefinition[] = []) {
+    for (const { name, irisUrl, options } of definitions) {
+      this.create(name, irisUrl, options);
+    }
+  }
+
+  /**
+   * Create a bot and add it to the manager
+   */
+  create(name: string, irisUrl: string, options: BotOptions = {}): Bot {
+    if (this.bots.has(name)) {
+      throw new ValidationError(`Bot already exists: ${name}`, { name });
+    }
+    return this.add(new Bot(name, irisUrl, options));
+  }
+
+  /**
+   * Add an existing bot
+   */
+  add(bot: Bot): Bot {
+    if (this.bots.has(bot.name)) {
+      throw new ValidationError(`Bot already exists: ${bot.name}`, {
+        name: bot.name,
+      });
+    }
+    this.bots.set(bot.name, bot);
+    return bot;
+  }
+
+  get(name: string): Bot | undefined {
+    return this.bots.get(name);
+  }
+
+  list(): Bot[] {
+    return Array.from(this.bots.values());
+  }
+
+  isRunning(name: string): boolean {
+    return this.runs.has(name);
+  }
+
+  /**
+   * Start a bot (a failing bot does not affect the others)
+   * @returns 봇이 중지되거나 실패하면 완료되는 Promise
+   */
+  start(name: string): Promise<void> {
+    const bot = this.requireBot(name);
+    const running = this.runs.get(name);
+    if (running) {
+      return running;
+    }
+
+    this.logger.info(`Starting bot ${name}`);
+    const run = bot
+      .run()
+      .catch((error) => {
+        this.logger.error(`Bot ${name} stopped with error:`, error);
+      })
+      .finally(() => {
+        if (this.runs.get(name) === run) {
+          this.runs.delete(name);
+        }
+      });
+    this.runs.set(name, run);
+    return run;
+  }
+
+  /**
+   * Start all bots
+   * @returns 모든 봇이 중지되면 완료되는 Promise
+   */
+  async startAll(): Promise<void> {
+    await Promise.all(this.list().map((bot) => this.start(bot.name)));
+  }
+
+  /**
+   * Stop a bot (waits for in-flight handlers, see Bot.stop)
+   */
+  async stop(name: string, options?: StopOptions): Promise<void> {
+    this.logger.info(`Stopping bot ${name}`);
+    await this.requireBot(name).stop(options);
+  }
+
+  /**
+   * Stop all bots
+   */
+  async stopAll(options?: StopOptions): Promise<void> {
+    await Promise.all(this.list().map((bot) => this.stop(bot.name, options)));
+  }
+
+  /**
+   * Stop a bot and remove it from the manager
+   */
+  async remove(name: string, options?: StopOptions): Promise<boolean> {
+    const bot = this.bots.get(name);
+    if (!bot) {
+      return false;
+    }
+    this.bots.delete(name);
+    await bot.stop(options);
+    return true;
+  }
+
+  private requireBot(name: string): Bot {
+    const bot = this.bots.get(name);
+    if (!bot) {
+      throw new ValidationError(`Unknown bot: ${name}`, { name });
+    }
+    return bot;
+  }
+}
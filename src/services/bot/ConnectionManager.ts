@@ -1,24 +1,99 @@
 import WebSocket = require('ws');
 import { IrisAPI } from '@/services/core/IrisAPI';
+import { getDatabase } from '@/services/database';
 import { IrisRequest } from '@/types/models/base';
-import { safeJsonParseWithReviver } from '@/utils';
+import { idToString, safeJsonParseWithReviver, toSafeId } from '@/utils';
 import { Logger } from '@/utils/logger';
 
 export interface ConnectionManagerOptions {
-  maxReconnectAttempts?: number;
-  initialReconnectDelay?: number;
+  maxReconnectAttempts?: number; // 연속 실패 허용 횟수 (기본: 5, Infinity면 무제한 재시도)
+  initialReconnectDelay?: number; // 첫 재연결 대기 시간 (기본: 1000ms)
+  maxReconnectDelay?: number; // 재연결 대기 시간 상한 (기본: 30000ms)
+  reconnectJitter?: number; // 대기 시간에 적용할 무작위 비율 0~1 (기본: 0.3, ±30%)
+  connectTimeout?: number; // 연결 시도 제한 시간 (기본: 10000ms)
+  heartbeatInterval?: number; // ping 전송 주기 (기본: 30000ms, 0이면 사용하지 않음)
+  heartbeatTimeout?: number; // pong 응답 대기 시간, 초과 시 연결을 끊고 재연결 (기본: 10000ms)
+  backfill?: BackfillOptions; // 재연결 후 놓친 메시지 처리
 }
 
+/**
+ * 연결이 끊긴 동안 받지 못한 메시지를 재연결 후 messages 테이블에서 가져와 처리
+ * (연결이 끊기기 전에 메시지를 받은 방만 대상)
+ */
+export interface BackfillOptions {
+  enabled?: boolean; // 기본: true
+  maxAgeMs?: number; // 이보다 오래된 메시지는 처리하지 않음 (기본: 10분)
+  maxMessagesPerRoom?: number; // 방별 최대 개수, 초과 시 최근 메시지만 처리 (기본: 50)
+}
+
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'closed';
+
+export interface ConnectedEvent {
+  botId?: string;
+  attempts: number; // 연결되기까지 실패한 횟수
+}
+
+export interface DisconnectedEvent {
+  code?: number;
+  reason?: string;
+  willReconnect: boolean;
+}
+
+export interface ReconnectingEvent {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error?: Error; // 마지막 연결 실패 원인 (연결이 끊겨 재연결하는 경우 없음)
+}
+
+export interface ConnectionEventMap {
+  connected: ConnectedEvent;
+  disconnected: DisconnectedEvent;
+  reconnecting: ReconnectingEvent;
+}
+
+interface RoomCheckpoint {
+  logId: bigint;
+  roomName: string;
+}
+
+export type ConnectionEventHandler = <K extends keyof ConnectionEventMap>(
+  event: K,
+  data: ConnectionEventMap[K]
+) => void;
+
 export class ConnectionManager {
   private ws?: WebSocket;
+  private state: ConnectionState = 'idle';
+  private closed = false;
   private reconnectAttempts = 0;
-  private reconnectDelay = 1000;
   private logger: Logger;
   private irisWsEndpoint: string;
   private api: IrisAPI;
   private botId?: string;
   private maxReconnectAttempts: number;
+  private initialReconnectDelay: number;
+  private maxReconnectDelay: number;
+  private reconnectJitter: number;
+  private connectTimeout: number;
+  private heartbeatInterval: number;
+  private heartbeatTimeout: number;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private pongTimer?: NodeJS.Timeout;
+  private disconnection?: Promise<{ code: number; reason: string }>;
+  private wakeUp?: () => void;
+  private backfillOptions: Required<BackfillOptions>;
+  // 방별 마지막으로 받은 메시지 (재연결 후 이후 메시지를 가져오기 위한 기준)
+  private checkpoints = new Map<string, RoomCheckpoint>();
+  private pendingBackfill?: Map<string, RoomCheckpoint>;
+  private liveLogIds?: Set<string>;
   private onMessageCallback?: (data: IrisRequest) => Promise<void>;
+  private onEventCallback?: ConnectionEventHandler;
 
   constructor(
     irisUrl: string,
@@ -29,8 +104,21 @@ export class ConnectionManager {
     this.irisWsEndpoint = `ws://${irisUrl}/ws`;
     this.api = api;
     this.logger = logger;
-    this.maxReconnectAttempts = options.maxReconnectAttempts || 5;
-    this.reconnectDelay = options.initialReconnectDelay || 1000;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.initialReconnectDelay = options.initialReconnectDelay || 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay || 30000;
+    this.reconnectJitter = Math.min(
+      Math.max(options.reconnectJitter ?? 0.3, 0),
+      1
+    );
+    this.connectTimeout = options.connectTimeout || 10000;
+    this.heartbeatInterval = options.heartbeatInterval ?? 30000;
+    this.heartbeatTimeout = options.heartbeatTimeout || 10000;
+    this.backfillOptions = {
+      enabled: options.backfill?.enabled ?? true,
+      maxAgeMs: options.backfill?.maxAgeMs ?? 10 * 60 * 1000,
+      maxMessagesPerRoom: options.backfill?.maxMessagesPerRoom ?? 50,
+    };
   }
 
   /**
@@ -40,6 +128,13 @@ export class ConnectionManager {
     this.onMessageCallback = callback;
   }
 
+  /**
+   * Set the callback for connection state events (connected, disconnected, reconnecting)
+   */
+  setEventHandler(callback: ConnectionEventHandler): void {
+    this.onEventCallback = callback;
+  }
+
   /**
    * Get bot ID
    */
@@ -47,41 +142,87 @@ export class ConnectionManager {
     return this.botId;
   }
 
+  /**
+   * Get the current connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
   /**
    * Connect to WebSocket and handle reconnection
+   * Resolves when close() is called, rejects when reconnect attempts are exhausted
    */
   async connectWithRetry(): Promise<void> {
-    while (true) {
+    this.closed = false;
+
+    while (!this.closed) {
       try {
+        this.state = this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting';
         await this.connect();
 
         // Reset reconnect attempts on successful connection
+        const attempts = this.reconnectAttempts;
         this.reconnectAttempts = 0;
-        this.reconnectDelay = 1000;
+        this.state = 'connected';
+        this.notify('connected', { botId: this.botId, attempts });
+
+        if (this.pendingBackfill) {
+          const checkpoints = this.pendingBackfill;
+          const liveLogIds = this.liveLogIds;
+          this.pendingBackfill = undefined;
+          this.backfill(checkpoints)
+            .catch((error) => {
+              this.logger.error('Failed to backfill missed messages:', error);
+            })
+            .finally(() => {
+              if (this.liveLogIds === liveLogIds) {
+                this.liveLogIds = undefined;
+              }
+            });
+        }
 
         // Wait for the connection to close
-        await this.waitForDisconnection();
+        const { code, reason } = await this.disconnection!;
+        this.stopHeartbeat();
+        this.markBackfill();
 
-        this.logger.warn('Connection lost. Attempting to reconnect...');
+        if (this.closed) {
+          this.notify('disconnected', { code, reason, willReconnect: false });
+          break;
+        }
+
+        this.logger.warn('Connection lost. Attempting to reconnect...', {
+          code,
+          reason,
+        });
+        this.notify('disconnected', { code, reason, willReconnect: true });
+        await this.scheduleReconnect();
       } catch (error) {
+        this.stopHeartbeat();
+        this.terminate();
+
+        if (this.closed) {
+          break;
+        }
+
         this.logger.error('Connection error', error);
 
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
           this.logger.error('Maximum reconnect attempts reached. Stopping.');
+          this.state = 'closed';
           throw error;
         }
 
-        this.reconnectAttempts++;
-        this.logger.info(`Reconnecting in ${this.reconnectDelay}ms...`, {
-          attempt: this.reconnectAttempts,
-          maxAttempts: this.maxReconnectAttempts,
-          delay: this.reconnectDelay,
-        });
-
-        await this.sleep(this.reconnectDelay);
-        this.reconnectDelay = Math.min(this.reconnectDelay * 2, 30000); // Max 30 seconds
+        await this.scheduleReconnect(error as Error);
       }
     }
+
+    this.state = 'closed';
   }
 
   /**
@@ -89,26 +230,34 @@ export class ConnectionManager {
    */
   private async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(this.irisWsEndpoint);
+      const ws = new WebSocket(this.irisWsEndpoint);
+      this.ws = ws;
+
+      this.disconnection = new Promise((resolveDisconnection) => {
+        ws.on('close', (code: number, reason: Buffer) => {
+          resolveDisconnection({ code, reason: reason.toString() });
+        });
+      });
 
-      const connectTimeout = setTimeout(() => {
+      const connectTimer = setTimeout(() => {
         reject(new Error('Connection timed out'));
-      }, 10000);
+      }, this.connectTimeout);
 
-      this.ws.on('open', async () => {
-        clearTimeout(connectTimeout);
+      ws.on('open', async () => {
+        clearTimeout(connectTimer);
         this.logger.info('WebSocket connected');
 
         try {
           const info = await this.api.getInfo();
           this.botId = String(info.bot_id);
+          this.startHeartbeat(ws);
           resolve();
         } catch (error) {
           reject(error);
         }
       });
 
-      this.ws.on('message', (data: WebSocket.Data) => {
+      ws.on('message', (data: WebSocket.Data) => {
         try {
           const recv = data.toString();
           const rawData = safeJsonParseWithReviver(recv);
@@ -120,48 +269,256 @@ export class ConnectionManager {
           };
           delete processedData.json;
 
+          this.track(processedData as IrisRequest);
           if (this.onMessageCallback) {
-            this.onMessageCallback(processedData as IrisRequest);
+            this.onMessageCallback(processedData as IrisRequest).catch(
+              (error) => {
+                this.logger.error(
+                  'Iris event processing error occurred:',
+                  error
+                );
+              }
+            );
           }
         } catch (error) {
           this.logger.error('Iris event processing error occurred:', error);
         }
       });
 
-      this.ws.on('error', (error: Error) => {
-        clearTimeout(connectTimeout);
+      ws.on('pong', () => {
+        if (this.pongTimer) {
+          clearTimeout(this.pongTimer);
+          this.pongTimer = undefined;
+        }
+      });
+
+      ws.on('error', (error: Error) => {
+        clearTimeout(connectTimer);
         reject(error);
       });
 
-      this.ws.on('close', () => {
-        clearTimeout(connectTimeout);
-        this.ws = undefined;
+      ws.on('close', () => {
+        clearTimeout(connectTimer);
+        reject(new Error('Connection closed'));
+        if (this.ws === ws) {
+          this.ws = undefined;
+        }
       });
     });
   }
 
   /**
-   * Wait for WebSocket disconnection
+   * Remember the last log id per room
    */
-  private async waitForDisconnection(): Promise<void> {
-    return new Promise((resolve) => {
-      if (!this.ws) {
-        resolve();
-        return;
+  private track(data: IrisRequest): void {
+    const { id, chat_id } = data.raw || {};
+    if (id === undefined || chat_id === undefined) {
+      return;
+    }
+
+    try {
+      const logId = toSafeId(id);
+      const roomId = idToString(chat_id);
+      const checkpoint = this.checkpoints.get(roomId);
+      if (!checkpoint || logId > checkpoint.logId) {
+        this.checkpoints.set(roomId, { logId, roomName: data.room });
       }
+      this.liveLogIds?.add(idToString(logId));
+    } catch {
+      // Ignore events without numeric ids
+    }
+  }
 
-      this.ws.on('close', () => {
-        resolve();
+  /**
+   * Keep the checkpoints at disconnection for the backfill after reconnecting
+   */
+  private markBackfill(): void {
+    if (
+      !this.backfillOptions.enabled ||
+      this.pendingBackfill ||
+      this.checkpoints.size === 0
+    ) {
+      return;
+    }
+
+    this.pendingBackfill = new Map(this.checkpoints);
+    // 재연결 이후 실시간으로 받은 메시지는 다시 처리하지 않음
+    this.liveLogIds = new Set();
+  }
+
+  /**
+   * Fetch messages newer than the checkpoints and process them in order
+   */
+  private async backfill(
+    checkpoints: Map<string, RoomCheckpoint>
+  ): Promise<void> {
+    const { maxAgeMs, maxMessagesPerRoom } = this.backfillOptions;
+    const since = new Date(Date.now() - maxAgeMs);
+    const requests: IrisRequest[] = [];
+
+    for (const [roomId, checkpoint] of checkpoints) {
+      try {
+        // 최근 메시지부터 가져온 뒤 아래에서 로그 ID 순으로 정렬
+        const rows = await getDatabase(this.api).messages.findAfter(
+          roomId,
+          checkpoint.logId,
+          { since, limit: maxMessagesPerRoom, order: 'desc' }
+        );
+
+        for (const row of rows) {
+          requests.push({
+            raw: row.raw,
+            room: checkpoint.roomName,
+            sender: row.senderName || '',
+            backfilled: true,
+          });
+        }
+      } catch (error) {
+        this.logger.error(`Failed to backfill room ${roomId}:`, error);
+      }
+    }
+
+    // 방에 관계없이 받은 순서대로 처리
+    requests.sort((a, b) => {
+      const diff = toSafeId(a.raw.id) - toSafeId(b.raw.id);
+      return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+    });
+
+    let processed = 0;
+    for (const request of requests) {
+      if (this.closed) {
+        break;
+      }
+      if (this.liveLogIds?.has(idToString(request.raw.id))) {
+        continue;
+      }
+
+      this.track(request);
+      if (this.onMessageCallback) {
+        try {
+          await this.onMessageCallback(request);
+          processed++;
+        } catch (error) {
+          this.logger.error('Iris event processing error occurred:', error);
+        }
+      }
+    }
+
+    if (processed > 0) {
+      this.logger.info(`Backfilled ${processed} missed messages`, {
+        rooms: checkpoints.size,
       });
+    }
+  }
+
+  /**
+   * Wait before the next connection attempt (exponential backoff with jitter)
+   */
+  private async scheduleReconnect(error?: Error): Promise<void> {
+    this.reconnectAttempts++;
+    this.state = 'reconnecting';
+
+    const delayMs = this.getReconnectDelay(this.reconnectAttempts);
+    this.logger.info(`Reconnecting in ${delayMs}ms...`, {
+      attempt: this.reconnectAttempts,
+      maxAttempts: this.maxReconnectAttempts,
+      delay: delayMs,
     });
+    this.notify('reconnecting', {
+      attempt: this.reconnectAttempts,
+      maxAttempts: this.maxReconnectAttempts,
+      delayMs,
+      error,
+    });
+
+    await this.sleep(delayMs);
+  }
+
+  private getReconnectDelay(attempt: number): number {
+    const base = Math.min(
+      this.initialReconnectDelay * Math.pow(2, attempt - 1),
+      this.maxReconnectDelay
+    );
+    // 여러 봇이 동시에 재연결하지 않도록 무작위로 분산
+    const jitter = base * this.reconnectJitter * (Math.random() * 2 - 1);
+    return Math.round(
+      Math.min(Math.max(base + jitter, 0), this.maxReconnectDelay)
+    );
+  }
+
+  /**
+   * Send pings periodically and drop half-open connections without pong
+   */
+  private startHeartbeat(ws: WebSocket): void {
+    this.stopHeartbeat();
+    if (this.heartbeatInterval <= 0) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      if (ws.readyState !== WebSocket.OPEN || this.pongTimer) {
+        return;
+      }
+
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = undefined;
+        this.logger.warn(
+          `No heartbeat response within ${this.heartbeatTimeout}ms. Terminating connection.`
+        );
+        ws.terminate();
+      }, this.heartbeatTimeout);
+
+      try {
+        ws.ping();
+      } catch (error) {
+        this.logger.error('Failed to send heartbeat:', error);
+      }
+    }, this.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = undefined;
+    }
+  }
+
+  private notify<K extends keyof ConnectionEventMap>(
+    event: K,
+    data: ConnectionEventMap[K]
+  ): void {
+    try {
+      this.onEventCallback?.(event, data);
+    } catch (error) {
+      this.logger.error(`Error in ${event} event handler:`, error);
+    }
+  }
+
+  // 연결 시도 중 실패한 소켓 정리
+  private terminate(): void {
+    if (this.ws) {
+      this.ws.removeAllListeners('message');
+      this.ws.terminate();
+      this.ws = undefined;
+    }
   }
 
   /**
-   * Close WebSocket connection
+   * Close WebSocket connection and stop reconnecting
    */
   close(): void {
+    this.closed = true;
+    this.stopHeartbeat();
+    this.wakeUp?.();
+
     if (this.ws) {
       this.ws.close();
+    } else {
+      this.state = 'closed';
     }
   }
 
@@ -179,7 +536,18 @@ export class ConnectionManager {
     }
   }
 
+  // close()가 호출되면 대기를 즉시 종료
   private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.wakeUp = () => {
+        this.wakeUp = undefined;
+        done();
+      };
+    });
   }
 }
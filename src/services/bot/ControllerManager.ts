@@ -6,6 +6,8 @@ import {
   getRegisteredControllers,
   getScheduleMessageMethods,
   getScheduleMethods,
+  getShutdownMethods,
+  isControllerForBot,
 } from '@/decorators';
 import { BatchScheduler } from '@/services/core/BatchScheduler';
 import { ChatContext } from '@/types/models/classes';
@@ -14,14 +16,18 @@ import { EventManager } from './EventManager';
 
 export interface ControllerManagerOptions {
   autoRegisterControllers?: boolean;
+  botName?: string; // 다른 봇에 지정된 컨트롤러는 자동 등록하지 않음
 }
 
 export class ControllerManager {
   private controllers: BaseController[] = [];
   private registeredMethods: Function[] = [];
+  // 같은 컨트롤러 클래스가 여러 번 생성되어도 종료 핸들러는 한 번만 등록
+  private shutdownMethods = new Set<Function>();
   private logger: Logger;
   private batchScheduler: BatchScheduler;
   private eventManager: EventManager;
+  private botName?: string;
 
   constructor(
     logger: Logger,
@@ -32,6 +38,7 @@ export class ControllerManager {
     this.logger = logger;
     this.batchScheduler = batchScheduler;
     this.eventManager = eventManager;
+    this.botName = options.botName;
 
     // Auto-register controllers only if enabled (default: true for backward compatibility)
     if (options.autoRegisterControllers !== false) {
@@ -45,6 +52,7 @@ export class ControllerManager {
   addController(controller: BaseController): void {
     this.controllers.push(controller);
     this.eventManager.registerControllerMethods(controller);
+    this.registerShutdownMethods(controller);
   }
 
   /**
@@ -155,6 +163,8 @@ export class ControllerManager {
       });
       this.logger.info(`Registered schedule message handler for key: ${key}`);
     }
+
+    this.registerShutdownMethods(controller);
   }
 
   /**
@@ -171,6 +181,29 @@ export class ControllerManager {
         `Registered bootstrap handler with priority: ${priority}`
       );
     }
+
+    this.registerShutdownMethods(controller);
+  }
+
+  /**
+   * Register @Shutdown methods of a controller
+   */
+  private registerShutdownMethods(controller: any): void {
+    for (const { method, original, priority } of getShutdownMethods(
+      controller
+    )) {
+      if (this.shutdownMethods.has(original)) {
+        continue;
+      }
+      this.shutdownMethods.add(original);
+      this.batchScheduler.registerShutdownHandler(
+        method as () => Promise<void>,
+        priority
+      );
+      this.logger.info(
+        `Registered shutdown handler with priority: ${priority}`
+      );
+    }
   }
 
   /**
@@ -180,7 +213,7 @@ export class ControllerManager {
     // Register normal controllers
     const controllers = getRegisteredControllers();
     controllers.forEach((controllerClasses, eventType) => {
-      controllerClasses.forEach((controllerClass) => {
+      controllerClasses.filter(this.isForThisBot).forEach((controllerClass) => {
         const controller = new controllerClass();
         this.addController(controller);
         this.logger.info(
@@ -192,7 +225,7 @@ export class ControllerManager {
     // Register batch controllers
     const batchControllers = getBatchControllers();
     batchControllers.forEach((controllerClasses, eventType) => {
-      controllerClasses.forEach((controllerClass) => {
+      controllerClasses.filter(this.isForThisBot).forEach((controllerClass) => {
         const controller = new controllerClass();
         this.registerBatchController(controller);
         this.logger.info(
@@ -204,7 +237,7 @@ export class ControllerManager {
     // Register bootstrap controllers
     const bootstrapControllers = getBootstrapControllers();
     bootstrapControllers.forEach((controllerClasses, eventType) => {
-      controllerClasses.forEach((controllerClass) => {
+      controllerClasses.filter(this.isForThisBot).forEach((controllerClass) => {
         const controller = new controllerClass();
         this.registerBootstrapController(controller);
         this.logger.info(
@@ -214,6 +247,11 @@ export class ControllerManager {
     });
   }
 
+  // 특정 봇에 지정된 컨트롤러는 해당 봇에서만 등록
+  private isForThisBot = (controllerClass: Function): boolean =>
+    this.botName === undefined ||
+    isControllerForBot(controllerClass, this.botName);
+
   /**
    * Get all registered controllers
    */
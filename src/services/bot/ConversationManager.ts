@@ -0,0 +1,326 @@
+/**
+ * Multi-turn conversations: wait for the next message of the same user in the same room
+ */
+
+import { IrisError } from '@/types';
+import type { ChatContext } from '@/types/models';
+import { Logger } from '@/utils/logger';
+
+export type PromptValidator = (
+  answer: ChatContext
+) => boolean | string | Promise<boolean | string>;
+
+export interface PromptOptions {
+  timeoutMs?: number; // 응답 대기 시간 (기본: 60초)
+  validate?: PromptValidator; // false 또는 오류 메시지(문자열)를 반환하면 다시 입력받음
+  invalidMessage?: string; // validate가 false를 반환했을 때 보낼 메시지
+  maxAttempts?: number; // 최대 입력 횟수 (기본: 제한 없음)
+  cancelWords?: string[]; // 입력 시 취소되는 단어 (기본: ['취소', 'cancel'])
+  timeoutMessage?: string | null; // 시간 초과 시 보낼 메시지 (null이면 보내지 않음)
+  cancelMessage?: string | null; // 취소 시 보낼 메시지 (null이면 보내지 않음)
+}
+
+export type PromptAbortReason =
+  | 'timeout'
+  | 'cancelled'
+  | 'max-attempts'
+  | 'replaced'
+  | 'stopped';
+
+/**
+ * Thrown from `context.prompt()` when the prompt ends without a valid answer
+ */
+export class PromptAbortedError extends IrisError {
+  constructor(public reason: PromptAbortReason) {
+    super(`Prompt aborted: ${reason}`, 'PROMPT_ABORTED', { reason });
+    this.name = 'PromptAbortedError';
+  }
+}
+
+export interface WizardStep {
+  name: string;
+  question: string | ((answers: Record<string, any>) => string);
+  options?: PromptOptions;
+  transform?: (answer: ChatContext) => any; // 기본: 메시지 텍스트
+  skip?: (answers: Record<string, any>) => boolean;
+}
+
+interface PendingPrompt {
+  context: ChatContext;
+  options: PromptOptions;
+  attempts: number;
+  timer: NodeJS.Timeout;
+  resolve: (answer: ChatContext) => void;
+  reject: (error: PromptAbortedError) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_CANCEL_WORDS = ['취소', 'cancel'];
+
+export class ConversationManager {
+  private static instance: ConversationManager | null = null;
+
+  private logger: Logger = new Logger('ConversationManager');
+  private pending = new Map<string, PendingPrompt>();
+
+  static getInstance(): ConversationManager {
+    if (!ConversationManager.instance) {
+      ConversationManager.instance = new ConversationManager();
+    }
+    return ConversationManager.instance;
+  }
+
+  /**
+   * Ask a question and wait for the next message of the same user in the same room
+   * @returns 응답 메시지의 ChatContext
+   */
+  async prompt(
+    context: ChatContext,
+    question: string,
+    options: PromptOptions = {}
+  ): Promise<ChatContext> {
+    const key = this.getKey(context);
+
+    // 같은 사용자에게 진행 중인 질문이 있으면 새 질문으로 대체
+    this.abort(key, 'replaced');
+
+    const answer = new Promise<ChatContext>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.finish(key, new PromptAbortedError('timeout'));
+      }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      this.pending.set(key, {
+        context,
+        options,
+        attempts: 0,
+        timer,
+        resolve,
+        reject,
+      });
+    });
+
+    // 질문을 보내기 전에 등록하여 빠른 응답도 놓치지 않도록 함
+    if (question) {
+      try {
+        await context.reply(question);
+      } catch (error) {
+        // 질문을 보내지 못했으면 대기를 중단하고 전송 오류를 전달
+        answer.catch(() => undefined);
+        this.abort(key, 'stopped');
+        throw error;
+      }
+    }
+
+    return answer;
+  }
+
+  /**
+   * Pass a message to the pending prompt of its sender
+   * @returns 메시지가 질문의 응답으로 사용되었으면 true (일반 명령어 처리 생략)
+   */
+  async consume(answer: ChatContext): Promise<boolean> {
+    const key = this.getKey(answer);
+    const prompt = this.pending.get(key);
+    if (!prompt) {
+      return false;
+    }
+
+    const { options } = prompt;
+    const text =
+      typeof answer.message.msg === 'string' ? answer.message.msg.trim() : '';
+    const cancelWords = options.cancelWords ?? DEFAULT_CANCEL_WORDS;
+
+    if (cancelWords.includes(text)) {
+      this.finish(key, new PromptAbortedError('cancelled'));
+      return true;
+    }
+
+    prompt.attempts++;
+
+    let result: boolean | string = true;
+    if (options.validate) {
+      try {
+        result = await options.validate(answer);
+      } catch (error) {
+        this.logger.error('Prompt validator failed:', error);
+        result = false;
+      }
+    }
+
+    // 검증 중에 시간이 초과되었거나 다른 질문으로 대체된 경우
+    if (this.pending.get(key) !== prompt) {
+      return true;
+    }
+
+    if (result === true) {
+      this.finish(key, answer);
+      return true;
+    }
+
+    if (
+      options.maxAttempts !== undefined &&
+      prompt.attempts >= options.maxAttempts
+    ) {
+      this.finish(key, new PromptAbortedError('max-attempts'));
+      return true;
+    }
+
+    const message =
+      typeof result === 'string'
+        ? result
+        : options.invalidMessage ||
+          '올바르지 않은 입력입니다. 다시 입력해 주세요.';
+    await answer.reply(message).catch((error) => {
+      this.logger.error('Failed to send prompt validation message:', error);
+    });
+    return true;
+  }
+
+  /**
+   * Check if a user has a pending prompt in a room
+   * @param botName - 지정하지 않으면 모든 봇의 질문 확인
+   */
+  hasPending(roomId: string, userId: string, botName?: string): boolean {
+    return this.findKeys(roomId, userId, botName).length > 0;
+  }
+
+  /**
+   * Cancel the pending prompt of a user in a room
+   * @param botName - 지정하지 않으면 모든 봇의 질문 취소
+   */
+  cancel(roomId: string, userId: string, botName?: string): boolean {
+    const keys = this.findKeys(roomId, userId, botName);
+    keys.forEach((key) => this.abort(key, 'cancelled'));
+    return keys.length > 0;
+  }
+
+  /**
+   * Cancel all pending prompts (used when the bot stops)
+   * @param botName - 지정하면 해당 봇이 받은 질문만 취소
+   */
+  cancelAll(botName?: string): void {
+    for (const [key, prompt] of Array.from(this.pending.entries())) {
+      if (botName === undefined || prompt.context.botName === botName) {
+        this.abort(key, 'stopped');
+      }
+    }
+  }
+
+  private getKey(context: ChatContext): string {
+    return this.buildKey(
+      context.room.getIdAsString(),
+      context.sender.getIdAsString(),
+      context.botName
+    );
+  }
+
+  // 같은 방에 여러 봇이 있어도 각 봇의 질문이 서로 대체되지 않도록 봇 이름 포함
+  private buildKey(roomId: string, userId: string, botName?: string): string {
+    return `${botName ?? ''}:${roomId}:${userId}`;
+  }
+
+  private findKeys(roomId: string, userId: string, botName?: string): string[] {
+    if (botName !== undefined) {
+      const key = this.buildKey(roomId, userId, botName);
+      return this.pending.has(key) ? [key] : [];
+    }
+    return Array.from(this.pending.entries())
+      .filter(
+        ([, prompt]) =>
+          prompt.context.room.getIdAsString() === roomId &&
+          prompt.context.sender.getIdAsString() === userId
+      )
+      .map(([key]) => key);
+  }
+
+  private abort(key: string, reason: PromptAbortReason): boolean {
+    if (!this.pending.has(key)) {
+      return false;
+    }
+    this.finish(key, new PromptAbortedError(reason));
+    return true;
+  }
+
+  private finish(key: string, result: ChatContext | PromptAbortedError): void {
+    const prompt = this.pending.get(key);
+    if (!prompt) {
+      return;
+    }
+
+    clearTimeout(prompt.timer);
+    this.pending.delete(key);
+
+    if (!(result instanceof PromptAbortedError)) {
+      prompt.resolve(result);
+      return;
+    }
+
+    const { options } = prompt;
+    const message =
+      result.reason === 'timeout'
+        ? options.timeoutMessage !== undefined
+          ? options.timeoutMessage
+          : '입력 시간이 초과되었습니다.'
+        : result.reason === 'cancelled' || result.reason === 'max-attempts'
+          ? options.cancelMessage !== undefined
+            ? options.cancelMessage
+            : '취소되었습니다.'
+          : null;
+
+    if (message) {
+      prompt.context.reply(message).catch((error) => {
+        this.logger.error('Failed to send prompt message:', error);
+      });
+    }
+
+    this.logger.debug(`Prompt ${key} aborted: ${result.reason}`);
+    prompt.reject(result);
+  }
+}
+
+/**
+ * A sequence of prompts sharing the same defaults
+ */
+export class Conversation {
+  readonly answers: Record<string, any> = {};
+  private context: ChatContext;
+  private defaults: PromptOptions;
+
+  constructor(context: ChatContext, defaults: PromptOptions = {}) {
+    this.context = context;
+    this.defaults = defaults;
+  }
+
+  /**
+   * Ask a question (see ChatContext.prompt)
+   */
+  ask(question: string, options: PromptOptions = {}): Promise<ChatContext> {
+    return ConversationManager.getInstance().prompt(this.context, question, {
+      ...this.defaults,
+      ...options,
+    });
+  }
+
+  /**
+   * Run wizard steps in order and collect the answers by step name
+   */
+  async run(steps: WizardStep[]): Promise<Record<string, any>> {
+    for (const step of steps) {
+      if (step.skip?.(this.answers)) {
+        continue;
+      }
+
+      const question =
+        typeof step.question === 'function'
+          ? step.question(this.answers)
+          : step.question;
+      const answer = await this.ask(question, step.options);
+
+      this.answers[step.name] = step.transform
+        ? await step.transform(answer)
+        : answer.message.msg;
+    }
+
+    return this.answers;
+  }
+}
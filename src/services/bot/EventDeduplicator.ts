@@ -0,0 +1,122 @@
+/**
+ * Drop events that were already processed (same log id from a resend, webhook and WebSocket, or backfill)
+ */
+
+import {
+  getScopedStorage,
+  getStorageAdapter,
+  StorageAdapter,
+} from '@/services/storage';
+import { IrisRequest } from '@/types/models/base';
+import { idToString } from '@/utils';
+import { Logger } from '@/utils/logger';
+
+export interface DeduplicationOptions {
+  enabled?: boolean; // 기본: true
+  windowMs?: number; // 처리한 로그 ID를 기억하는 시간 (기본: 10분)
+  maxEntries?: number; // 기억하는 최대 개수, 초과 시 오래된 항목부터 제거 (기본: 10000)
+  persist?: boolean; // 봇 저장소(BotOptions.storage)에도 기록하여 재시작 후에도 유지 (기본: false)
+}
+
+export interface DeduplicationStats {
+  received: number; // 로그 ID가 있는 이벤트 수
+  duplicates: number; // 중복으로 버린 이벤트 수
+  tracked: number; // 현재 기억하고 있는 로그 ID 수
+}
+
+export class EventDeduplicator {
+  private logger: Logger = new Logger('EventDeduplicator');
+  private enabled: boolean;
+  private windowMs: number;
+  private maxEntries: number;
+  private persist: boolean;
+  private namespace: string;
+  private resolveStorage: () => StorageAdapter;
+  // 로그 ID -> 처리 시각 (삽입 순서 = 시간 순서)
+  private seen = new Map<string, number>();
+  private received = 0;
+  private duplicates = 0;
+
+  /**
+   * @param namespace - 저장소 키 접두사 (봇마다 다르게 지정하여 처리 기록을 분리)
+   */
+  constructor(
+    options: DeduplicationOptions = {},
+    namespace: string = 'dedup',
+    resolveStorage: () => StorageAdapter = getStorageAdapter
+  ) {
+    this.namespace = namespace;
+    this.resolveStorage = resolveStorage;
+    this.enabled = options.enabled ?? true;
+    this.windowMs = options.windowMs ?? 10 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.persist = options.persist ?? false;
+  }
+
+  /**
+   * Record an event and check if it was already seen
+   * @returns 처음 받은 이벤트이면 true, 중복이면 false
+   */
+  async accept(req: IrisRequest): Promise<boolean> {
+    const id = req.raw?.id;
+    if (!this.enabled || id === undefined || id === null || id === '') {
+      return true;
+    }
+
+    const key = idToString(id);
+    const now = Date.now();
+    this.received++;
+    this.evict(now);
+
+    if (this.seen.has(key)) {
+      return this.drop(key, req);
+    }
+
+    // 저장소를 확인하는 동안 같은 이벤트가 들어와도 중복으로 처리되도록 먼저 기록
+    this.seen.set(key, now);
+
+    if (this.persist) {
+      try {
+        if (await this.storage().has(key)) {
+          return this.drop(key, req);
+        }
+        await this.storage().set(key, now, { ttlMs: this.windowMs });
+      } catch (error) {
+        this.logger.error('Failed to access deduplication storage:', error);
+      }
+    }
+
+    return true;
+  }
+
+  getStats(): DeduplicationStats {
+    return {
+      received: this.received,
+      duplicates: this.duplicates,
+      tracked: this.seen.size,
+    };
+  }
+
+  private drop(key: string, req: IrisRequest): boolean {
+    this.duplicates++;
+    this.logger.debug(`Dropped duplicate event ${key}`, {
+      roomId: req.raw.chat_id,
+      duplicates: this.duplicates,
+      received: this.received,
+    });
+    return false;
+  }
+
+  private evict(now: number): void {
+    for (const [key, seenAt] of this.seen) {
+      if (now - seenAt < this.windowMs && this.seen.size < this.maxEntries) {
+        break;
+      }
+      this.seen.delete(key);
+    }
+  }
+
+  private storage() {
+    return getScopedStorage(this.namespace, this.resolveStorage);
+  }
+}
@@ -1,30 +1,111 @@
 import {
+  CommandArgumentError,
+  composeMiddleware,
   debugDecoratorMetadata,
   decoratorMetadata,
-  getBatchControllers,
+  formatCommandUsage,
+  getControllerMiddlewares,
+  getControllerPriority,
   getDecoratedMethods,
-  getFullCommand,
+  findMatchingCommands,
   getMessageHandlers,
   getRegisteredCommands,
   getRegisteredControllers,
-  isCommandMatch,
+  Middleware,
+  parseCommandArguments,
+  ParsedCommandArguments,
 } from '@/decorators';
-import { ChatContext } from '@/types/models/classes';
+import { ChatContext, ErrorContext } from '@/types/models/classes';
+import { PromptAbortedError } from './ConversationManager';
 import { FeedType } from '@/types/models/feed-types';
 import { Message } from '@/types/models/message';
+import {
+  ConcurrencyLimiter,
+  ConcurrencyStats,
+} from '@/utils/concurrency-limiter';
 import { EventEmitter } from '@/utils/event-emitter';
 import { Logger } from '@/utils/logger';
 
 export type EventHandler = (context: ChatContext) => void | Promise<void>;
 export type ErrorHandler = (context: any) => void | Promise<void>;
 
+/**
+ * 이벤트 처리 순서
+ * - none: 순서 보장 없음 (기본)
+ * - room: 같은 방의 이벤트는 받은 순서대로 하나씩 처리
+ * - user: 같은 사용자의 이벤트는 받은 순서대로 하나씩 처리
+ */
+export type EventOrdering = 'none' | 'room' | 'user';
+
+export interface EventManagerOptions {
+  maxWorkers?: number; // 동시에 처리할 최대 이벤트 수 (기본: 제한 없음)
+  ordering?: EventOrdering;
+}
+
+export interface EventSchedulerStats extends ConcurrencyStats {
+  ordering: EventOrdering;
+}
+
+export interface DispatchOrderEntry {
+  controller: string;
+  handler: string;
+  priority: number;
+}
+
+interface Subscription {
+  controller: any;
+  label: string;
+  priority: number;
+  sequence: number;
+  handler: EventHandler;
+}
+
 export class EventManager {
   private emitter: EventEmitter;
   private logger: Logger;
-
-  constructor(emitter: EventEmitter, logger: Logger) {
+  private middlewares: Middleware[] = [];
+  private subscriptions = new Map<string, Subscription[]>();
+  private subscriptionSequence = 0;
+  private commandMatches = new WeakMap<
+    ChatContext,
+    ReturnType<typeof findMatchingCommands>
+  >();
+
+  private limiter: ConcurrencyLimiter;
+  private ordering: EventOrdering;
+
+  constructor(
+    emitter: EventEmitter,
+    logger: Logger,
+    options: EventManagerOptions = {}
+  ) {
     this.emitter = emitter;
     this.logger = logger;
+    this.limiter = new ConcurrencyLimiter({ concurrency: options.maxWorkers });
+    this.ordering = options.ordering || 'none';
+  }
+
+  /**
+   * Process an incoming event within the worker limit and ordering
+   */
+  schedule<T>(
+    target: { roomId: string; userId: string },
+    task: () => Promise<T>
+  ): Promise<T> {
+    const key =
+      this.ordering === 'room'
+        ? `room:${target.roomId}`
+        : this.ordering === 'user'
+          ? `user:${target.userId}`
+          : undefined;
+    return this.limiter.run(key, task);
+  }
+
+  /**
+   * Get queue length and wait time statistics of incoming events
+   */
+  getSchedulerStats(): EventSchedulerStats {
+    return { ...this.limiter.getStats(), ordering: this.ordering };
   }
 
   /**
@@ -55,6 +136,70 @@ export class EventManager {
     this.emitter.emit(event, args);
   }
 
+  /**
+   * Add a middleware that runs before controller dispatch for every chat event
+   */
+  use(middleware: Middleware): void {
+    this.middlewares.push(middleware);
+  }
+
+  /**
+   * Run the middleware chain, then emit `chat` and the event itself
+   * Resolves when all handlers have finished
+   */
+  async dispatch(event: string, context: ChatContext): Promise<void> {
+    context.event = event;
+
+    try {
+      await composeMiddleware(this.middlewares)(context, async () => {
+        // chat 핸들러가 전파를 중단하면 해당 이벤트의 핸들러는 실행하지 않음
+        await this.emitter.emitAsync('chat', [context]);
+        if (!context.isPropagationStopped()) {
+          await this.emitter.emitAsync(event, [context]);
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Error in middleware for ${event} event`, error);
+      this.emit('error', [
+        new ErrorContext(event, this.dispatch, error as Error, [context]),
+      ]);
+    }
+  }
+
+  /**
+   * Get the resolved handler order of controllers for each event
+   */
+  getDispatchOrder(): Map<string, DispatchOrderEntry[]> {
+    const order = new Map<string, DispatchOrderEntry[]>();
+    for (const [event, subscriptions] of this.subscriptions) {
+      order.set(
+        event,
+        subscriptions.map(({ controller, label, priority }) => ({
+          controller: controller.constructor.name,
+          handler: label,
+          priority,
+        }))
+      );
+    }
+    return order;
+  }
+
+  /**
+   * Log the resolved dispatch order (debug level)
+   */
+  logDispatchOrder(): void {
+    for (const [event, entries] of this.getDispatchOrder()) {
+      this.logger.debug(
+        `Dispatch order for ${event}:\n${entries
+          .map(
+            (entry, index) =>
+              `  ${index + 1}. [${entry.priority}] ${entry.controller} ${entry.handler}`
+          )
+          .join('\n')}`
+      );
+    }
+  }
+
   /**
    * Register controller methods as event handlers
    */
@@ -128,197 +273,271 @@ export class EventManager {
 
   /**
    * Register message controller
+   * OnMessage 핸들러와 명령어 메소드를 각각 우선순위에 따라 등록
    */
   private registerMessageController(controller: any): void {
-    this.on('message', async (context: ChatContext) => {
-      const { message, room, sender } = context;
-      const senderName = await sender.getName();
-
-      // Enhanced logging based on message type
-      let logMessage = '';
-      let logMessageType = 'MSG';
-
-      this.logger.debug(`Message type analysis:`, {
-        type: message.type,
-        isStringMessage: message.isStringMessage(),
-        isFeedMessage: message.isFeedMessage(),
-        isEmoticonMessage: message.isEmoticonMessage(),
-        isMobileEmoticonMessage: message.isMobileEmoticonMessage(),
-        msgContent: message.msg,
-      });
-
-      if (message.isFeedMessage()) {
-        // Feed message - use formatted feed log message
-        logMessage = message.getFeedLogMessage();
-        logMessageType = 'FeedType: ' + (message.msg as FeedType).feedType;
-      } else if (
-        message.isEmoticonMessage() ||
-        message.isImageMessage() ||
-        message.isVideoMessage() ||
-        message.isAudioMessage() ||
-        message.isFileMessage() ||
-        message.isMapMessage() ||
-        message.isProfileMessage() ||
-        message.isReplyMessage()
-      ) {
-        // Special message types - create descriptive log with type and content
-        const typeDescription = this.getMessageTypeDescription(message);
-        const msgContent = typeof message.msg === 'string' ? message.msg : '';
+    // Execute OnMessage handlers before commands of the same priority
+    for (const handler of getMessageHandlers(controller)) {
+      this.subscribe(
+        'message',
+        controller,
+        async (context: ChatContext) => {
+          try {
+            // Check room restrictions for OnMessage handlers
+            if (
+              !this.isRoomAllowed(
+                controller,
+                handler,
+                context.room.getIdAsString()
+              )
+            ) {
+              this.logger.debug(
+                `Message handler ${handler.name} blocked by room restrictions`,
+                {
+                  roomId: context.room.getIdAsString(),
+                  roomName: context.room.name,
+                  handlerName: handler.name,
+                  controllerName: controller.constructor.name,
+                }
+              );
+              return; // Skip this handler if room is not allowed
+            }
 
-        if (msgContent.trim()) {
-          logMessage = `${msgContent}`;
-        } else {
-          logMessage = 'No text content';
+            await handler.call(controller, context);
+          } catch (error) {
+            this.logHandlerError('Error executing OnMessage handler', error);
+          }
+        },
+        {
+          priority: decoratorMetadata.get(handler)?.priority,
+          label: `@OnMessage ${handler.name}`,
         }
-        logMessageType = typeDescription + ' | Type: ' + message.type;
-        this.logger.debug(`Using message type description: ${logMessage}`);
-      } else if (message.isStringMessage() && (message.msg as string).trim()) {
-        // Normal text message (non-empty string)
-        logMessage = message.msg as string;
-      } else {
-        // Fallback for unknown or empty message types
-        logMessage = this.getMessageTypeDescription(message);
-        logMessageType = `Type: ${message.type}`;
-        this.logger.debug(
-          `Using fallback message type description: ${logMessage}`
-        );
-      }
-
-      if (logMessage.includes('\n')) {
-        logMessage = logMessage.split('\n')[0];
-      }
-
-      this.logger.chat(
-        logMessageType,
-        room.name,
-        senderName || 'Unknown',
-        logMessage
       );
+    }
 
-      // Add context to all schedule tasks for batch processing
-      const batchControllers = getBatchControllers();
-      for (const [eventType, controllerClasses] of batchControllers) {
-        for (const controllerClass of controllerClasses) {
-          // This would need to be refactored to work with the new structure
-          // For now, keeping the original logic
-        }
-      }
-
-      // Execute all OnMessage handlers first
-      const messageHandlers = getMessageHandlers(controller);
-      for (const handler of messageHandlers) {
-        try {
-          // Check room restrictions for OnMessage handlers
-          if (
-            !this.isRoomAllowed(
-              controller,
-              handler,
-              context.room.getIdAsString()
-            )
-          ) {
-            this.logger.debug(
-              `Message handler ${handler.name} blocked by room restrictions`,
-              {
-                roomId: context.room.getIdAsString(),
-                roomName: context.room.name,
-                handlerName: handler.name,
-                controllerName: controller.constructor.name,
-              }
-            );
-            continue; // Skip this handler if room is not allowed
+    for (const [methodName, command] of this.getControllerCommands(
+      controller
+    )) {
+      this.subscribe(
+        'message',
+        controller,
+        async (context: ChatContext) => {
+          // Run the most specific registered commands handled by this method
+          const matches = this.getCommandMatches(context).filter(
+            ({ commandInfo }) =>
+              commandInfo.method === methodName &&
+              controller instanceof commandInfo.controller
+          );
+          if (matches.length === 0) {
+            return;
           }
 
-          await handler.call(controller, context);
-        } catch (error) {
-          this.logger.error('Error executing OnMessage handler', error);
-        }
-      }
+          const { message, room, sender } = context;
+          const senderName = await sender.getName();
 
-      // Check all registered commands to see if any match
-      const commands = getRegisteredCommands();
+          for (const { commandInfo, fullCommand } of matches) {
+            // Find the corresponding method in this controller
+            const method = controller[methodName];
 
-      for (const [baseCommand, commandInfo] of commands) {
-        // Get the full command with prefix for this controller
-        const fullCommand = getFullCommand(
-          controller.constructor,
-          commandInfo.originalMethod,
-          baseCommand
-        );
+            if (method && typeof method === 'function') {
+              try {
+                // Check room restrictions
+                if (
+                  !this.isRoomAllowed(
+                    controller,
+                    method,
+                    context.room.getIdAsString()
+                  )
+                ) {
+                  this.logger.debug(
+                    `Command ${fullCommand} blocked by room restrictions`,
+                    {
+                      roomId: context.room.getIdAsString(),
+                      roomName: context.room.name,
+                      command: fullCommand,
+                      methodName: methodName,
+                      controllerName: controller.constructor.name,
+                    }
+                  );
+                  continue; // Skip this command if room is not allowed
+                }
 
-        if (
-          typeof message.msg === 'string' &&
-          isCommandMatch(message.msg, fullCommand)
-        ) {
-          // Find the corresponding method in this controller
-          const methodName = commandInfo.method;
-          const method = controller[methodName];
-
-          if (method && typeof method === 'function') {
-            try {
-              // Check room restrictions
-              if (
-                !this.isRoomAllowed(
-                  controller,
-                  method,
-                  context.room.getIdAsString()
-                )
-              ) {
-                this.logger.debug(
-                  `Command ${fullCommand} blocked by room restrictions`,
-                  {
-                    roomId: context.room.getIdAsString(),
-                    roomName: context.room.name,
-                    command: fullCommand,
-                    methodName: methodName,
-                    controllerName: controller.constructor.name,
+                // Parse typed arguments when the command declares a schema
+                let parsedArgs: ParsedCommandArguments | undefined;
+                if (commandInfo.args) {
+                  try {
+                    parsedArgs = parseCommandArguments(
+                      message,
+                      fullCommand,
+                      commandInfo.args
+                    );
+                  } catch (error) {
+                    if (!(error instanceof CommandArgumentError)) {
+                      throw error;
+                    }
+
+                    this.logger.debug(`Invalid arguments for ${fullCommand}`, {
+                      error: error.message,
+                      argument: error.argument,
+                    });
+                    await context.reply(
+                      `${error.message}\n사용법: ${formatCommandUsage(fullCommand, commandInfo.args)}`
+                    );
+                    continue;
                   }
-                );
-                continue; // Skip this command if room is not allowed
-              }
+                }
 
-              // Update context with command-specific parameter
-              const commandParam = message.getParameterForCommand(fullCommand);
-              const hasCommandParam =
-                message.hasParameterForCommand(fullCommand);
-
-              // Update the existing context's message properties instead of creating a new object
-              const originalMessage = context.message;
-              context.message.param = commandParam;
-              context.message.hasParam = hasCommandParam;
-              context.message.command = fullCommand;
-
-              this.logger.command(
-                room.name,
-                senderName || 'Unknown',
-                `${fullCommand} -> ${methodName}${commandParam ? ` (param: ${commandParam})` : ''}`
-              );
+                // Update context with command-specific parameter
+                const commandParam =
+                  message.getParameterForCommand(fullCommand);
+                const hasCommandParam =
+                  message.hasParameterForCommand(fullCommand);
+
+                // Update the existing context's message properties instead of creating a new object
+                const originalMessage = context.message;
+                context.message.param = commandParam;
+                context.message.hasParam = hasCommandParam;
+                context.message.command = fullCommand;
+
+                this.logger.command(
+                  room.name,
+                  senderName || 'Unknown',
+                  `${fullCommand} -> ${methodName}${commandParam ? ` (param: ${commandParam})` : ''}`
+                );
 
-              try {
-                await method.call(controller, context);
-              } finally {
-                // Restore original message properties
-                context.message.param = originalMessage.param;
-                context.message.hasParam = originalMessage.hasParam;
-                context.message.command = originalMessage.command;
+                try {
+                  await method.call(controller, context, parsedArgs);
+                } finally {
+                  // Restore original message properties
+                  context.message.param = originalMessage.param;
+                  context.message.hasParam = originalMessage.hasParam;
+                  context.message.command = originalMessage.command;
+                }
+              } catch (error) {
+                this.logHandlerError(
+                  `Error executing command ${fullCommand} in room ${room.name}`,
+                  error,
+                  { command: fullCommand, methodName, sender: senderName }
+                );
               }
-            } catch (error) {
-              this.logger.error(
-                `Error executing command ${fullCommand} in room ${room.name}`,
-                error,
-                { command: fullCommand, methodName, sender: senderName }
-              );
             }
           }
+        },
+        {
+          priority: command.priority,
+          label: `@BotCommand ${(command.allCommands || [command.originalCommand]).join(' | ')}`,
         }
-      }
+      );
+    }
+  }
+
+  /**
+   * Log an incoming message (once per message, before message handlers run)
+   */
+  private async logMessage(context: ChatContext): Promise<void> {
+    const { message, room, sender } = context;
+    const senderName = await sender.getName();
+
+    // Enhanced logging based on message type
+    let logMessage = '';
+    let logMessageType = 'MSG';
+
+    this.logger.debug(`Message type analysis:`, {
+      type: message.type,
+      isStringMessage: message.isStringMessage(),
+      isFeedMessage: message.isFeedMessage(),
+      isEmoticonMessage: message.isEmoticonMessage(),
+      isMobileEmoticonMessage: message.isMobileEmoticonMessage(),
+      msgContent: message.msg,
     });
+
+    if (message.isFeedMessage()) {
+      // Feed message - use formatted feed log message
+      logMessage = message.getFeedLogMessage();
+      logMessageType = 'FeedType: ' + (message.msg as FeedType).feedType;
+    } else if (
+      message.isEmoticonMessage() ||
+      message.isImageMessage() ||
+      message.isVideoMessage() ||
+      message.isAudioMessage() ||
+      message.isFileMessage() ||
+      message.isMapMessage() ||
+      message.isProfileMessage() ||
+      message.isReplyMessage()
+    ) {
+      // Special message types - create descriptive log with type and content
+      const typeDescription = this.getMessageTypeDescription(message);
+      const msgContent = typeof message.msg === 'string' ? message.msg : '';
+
+      if (msgContent.trim()) {
+        logMessage = `${msgContent}`;
+      } else {
+        logMessage = 'No text content';
+      }
+      logMessageType = typeDescription + ' | Type: ' + message.type;
+      this.logger.debug(`Using message type description: ${logMessage}`);
+    } else if (message.isStringMessage() && (message.msg as string).trim()) {
+      // Normal text message (non-empty string)
+      logMessage = message.msg as string;
+    } else {
+      // Fallback for unknown or empty message types
+      logMessage = this.getMessageTypeDescription(message);
+      logMessageType = `Type: ${message.type}`;
+      this.logger.debug(
+        `Using fallback message type description: ${logMessage}`
+      );
+    }
+
+    if (logMessage.includes('\n')) {
+      logMessage = logMessage.split('\n')[0];
+    }
+
+    this.logger.chat(
+      logMessageType,
+      room.name,
+      senderName || 'Unknown',
+      logMessage
+    );
+  }
+
+  /**
+   * Get command registry entries handled by a controller, keyed by method name
+   */
+  private getControllerCommands(controller: any): Map<string, any> {
+    const commands = new Map<string, any>();
+    for (const commandInfo of getRegisteredCommands().values()) {
+      if (
+        controller instanceof commandInfo.controller &&
+        !commands.has(commandInfo.method)
+      ) {
+        commands.set(commandInfo.method, commandInfo);
+      }
+    }
+    return commands;
+  }
+
+  /**
+   * Find the most specific registered commands matching a message (cached per context)
+   */
+  private getCommandMatches(
+    context: ChatContext
+  ): ReturnType<typeof findMatchingCommands> {
+    let matches = this.commandMatches.get(context);
+    if (!matches) {
+      matches =
+        typeof context.message.msg === 'string'
+          ? findMatchingCommands(context.message.msg)
+          : [];
+      this.commandMatches.set(context, matches);
+    }
+    return matches;
   }
 
   /**
    * Register new member controller
    */
   private registerNewMemberController(controller: any): void {
-    this.on('new_member', async (context: ChatContext) => {
+    this.subscribe('new_member', controller, async (context: ChatContext) => {
       try {
         const memberName = await context.sender.getName();
         this.logger.newMember(context.room.name, memberName || 'Unknown');
@@ -365,7 +584,7 @@ export class EventManager {
    * Register delete member controller
    */
   private registerDelMemberController(controller: any): void {
-    this.on('del_member', async (context: ChatContext) => {
+    this.subscribe('del_member', controller, async (context: ChatContext) => {
       try {
         const memberName = await context.sender.getName();
         this.logger.delMember(context.room.name, memberName || 'Unknown');
@@ -436,7 +655,7 @@ export class EventManager {
    * Register feed controller
    */
   private registerFeedController(controller: any): void {
-    this.on('feed', async (context: ChatContext) => {
+    this.subscribe('feed', controller, async (context: ChatContext) => {
       try {
         const { message, room, sender } = context;
         const senderName = await sender.getName();
@@ -537,7 +756,7 @@ export class EventManager {
    * Register unknown controller
    */
   private registerUnknownController(controller: any): void {
-    this.on('unknown', async (context: ChatContext) => {
+    this.subscribe('unknown', controller, async (context: ChatContext) => {
       try {
         // Execute all decorated methods
         const decoratedMethods = getDecoratedMethods(controller);
@@ -581,7 +800,7 @@ export class EventManager {
    * Register chat controller
    */
   private registerChatController(controller: any): void {
-    this.on('chat', async (context: ChatContext) => {
+    this.subscribe('chat', controller, async (context: ChatContext) => {
       try {
         // Execute all decorated methods
         const decoratedMethods = getDecoratedMethods(controller);
@@ -609,7 +828,7 @@ export class EventManager {
 
             await method.call(controller, context);
           } catch (error) {
-            this.logger.error(
+            this.logHandlerError(
               'Error executing decorated method in ChatController',
               error
             );
@@ -621,6 +840,85 @@ export class EventManager {
     });
   }
 
+  /**
+   * Register a controller handler wrapped in the controller's middleware (@UseMiddleware)
+   * Handlers of an event run one by one in priority order until propagation is stopped
+   */
+  private subscribe(
+    event: string,
+    controller: any,
+    handler: EventHandler,
+    options: { priority?: number; label?: string } = {}
+  ): void {
+    let subscriptions = this.subscriptions.get(event);
+    if (!subscriptions) {
+      subscriptions = [];
+      this.subscriptions.set(event, subscriptions);
+      this.emitter.on(event, (context: ChatContext) =>
+        this.runSubscriptions(event, context)
+      );
+    }
+
+    const middlewares = getControllerMiddlewares(controller.constructor);
+    const run = composeMiddleware(middlewares);
+
+    subscriptions.push({
+      controller,
+      label: options.label || 'handler',
+      priority:
+        options.priority ?? getControllerPriority(controller.constructor) ?? 0,
+      sequence: this.subscriptionSequence++,
+      handler:
+        middlewares.length === 0
+          ? handler
+          : (context: ChatContext) =>
+              run(context, async () => {
+                await handler(context);
+              }),
+    });
+
+    // 우선순위가 높은 순서, 같으면 등록 순서
+    subscriptions.sort(
+      (a, b) => b.priority - a.priority || a.sequence - b.sequence
+    );
+  }
+
+  private async runSubscriptions(
+    event: string,
+    context: ChatContext
+  ): Promise<void> {
+    if (event === 'message') {
+      await this.logMessage(context);
+    }
+
+    for (const subscription of this.subscriptions.get(event) || []) {
+      if (context.isPropagationStopped()) {
+        this.logger.debug(`Propagation of ${event} event stopped`);
+        break;
+      }
+
+      try {
+        await subscription.handler(context);
+      } catch (error) {
+        this.logHandlerError(
+          `Error executing ${subscription.label} in ${subscription.controller.constructor.name}`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Log a handler error (aborted prompts are expected and only logged at debug level)
+   */
+  private logHandlerError(message: string, error: unknown, meta?: any): void {
+    if (error instanceof PromptAbortedError) {
+      this.logger.debug(`${message}: prompt ${error.reason}`, meta);
+      return;
+    }
+    this.logger.error(message, error, meta);
+  }
+
   /**
    * Get descriptive text for different message types
    */
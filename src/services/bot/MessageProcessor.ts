@@ -1,34 +1,130 @@
 import { IrisAPI } from '@/services/core/IrisAPI';
+import { getStorageAdapter, StorageAdapter } from '@/services/storage';
 import { IrisRequest, VField } from '@/types/models/base';
-import { ChatContext, Room, User } from '@/types/models/classes';
+import { ChatContext } from '@/types/models/classes';
 import { Message } from '@/types/models/message';
-import { safeJsonParseWithReviver, toSafeId } from '@/utils';
+import { idToString, safeJsonParseWithReviver, toSafeId } from '@/utils';
+import { InFlightTracker } from '@/utils/in-flight';
 import { Logger } from '@/utils/logger';
+import { BanManager } from './BanManager';
+import { ConversationManager } from './ConversationManager';
+import {
+  DeduplicationOptions,
+  DeduplicationStats,
+  EventDeduplicator,
+} from './EventDeduplicator';
 import { EventManager } from './EventManager';
+import { ModelCache, ModelCacheOptions, ModelCacheStats } from './ModelCache';
+
+export interface MessageProcessorOptions {
+  dropBannedUserEvents?: boolean;
+  deduplication?: DeduplicationOptions;
+  modelCache?: ModelCacheOptions;
+  botName?: string;
+  storage?: () => StorageAdapter; // 봇 저장소 (기본: 전역 저장소)
+}
 
 export class MessageProcessor {
   private eventManager: EventManager;
   private api: IrisAPI;
   private botId?: string;
   private logger: Logger;
+  private dropBannedUserEvents: boolean;
+  private deduplicator: EventDeduplicator;
+  private modelCache: ModelCache;
+  private botName?: string;
+  private resolveStorage: () => StorageAdapter;
+  private inFlight = new InFlightTracker();
 
-  constructor(eventManager: EventManager, api: IrisAPI) {
+  constructor(
+    eventManager: EventManager,
+    api: IrisAPI,
+    options: MessageProcessorOptions = {}
+  ) {
     this.eventManager = eventManager;
     this.api = api;
     this.logger = new Logger('MessageProcessor');
+    this.dropBannedUserEvents = options.dropBannedUserEvents || false;
+    this.resolveStorage = options.storage || getStorageAdapter;
+    this.deduplicator = new EventDeduplicator(
+      options.deduplication,
+      options.botName ? `dedup:${options.botName}` : 'dedup',
+      this.resolveStorage
+    );
+    this.modelCache = new ModelCache(api, options.modelCache);
+    this.botName = options.botName;
   }
 
   /**
    * Set bot ID
    */
   setBotId(botId: string): void {
+    if (this.botId !== botId) {
+      // 봇 자신인지 판단하는 값이 바뀌므로 기존 사용자 정보는 버림
+      this.modelCache.clear();
+    }
     this.botId = botId;
   }
 
+  /**
+   * Get duplicate event statistics
+   */
+  getDeduplicationStats(): DeduplicationStats {
+    return this.deduplicator.getStats();
+  }
+
+  /**
+   * Get hit/miss statistics of the shared Room and User cache
+   */
+  getModelCacheStats(): ModelCacheStats {
+    return this.modelCache.getStats();
+  }
+
+  /**
+   * Number of events currently being processed
+   */
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Wait until all events being processed have finished
+   */
+  onIdle(): Promise<void> {
+    return this.inFlight.onIdle();
+  }
+
   /**
    * Process incoming Iris request
    */
-  async processIrisRequest(req: IrisRequest): Promise<void> {
+  processIrisRequest(req: IrisRequest): Promise<void> {
+    return this.inFlight.track(() => {
+      const roomId = idToString(req.raw?.chat_id ?? '');
+      const userId = idToString(req.raw?.user_id ?? '');
+
+      // 질문(context.prompt)의 응답은 질문한 핸들러가 기다리고 있으므로 대기열을 거치지 않음
+      if (
+        ConversationManager.getInstance().hasPending(
+          roomId,
+          userId,
+          this.botName
+        )
+      ) {
+        return this.handleIrisRequest(req);
+      }
+
+      return this.eventManager.schedule({ roomId, userId }, () =>
+        this.handleIrisRequest(req)
+      );
+    });
+  }
+
+  private async handleIrisRequest(req: IrisRequest): Promise<void> {
+    // 이미 처리한 로그 ID (재전송, 웹훅과 WebSocket 동시 수신 등)는 무시
+    if (!(await this.deduplicator.accept(req))) {
+      return;
+    }
+
     let v: VField = {};
 
     try {
@@ -42,16 +138,6 @@ export class MessageProcessor {
       // Ignore JSON parse errors
     }
 
-    const room = new Room(toSafeId(req.raw.chat_id), req.room, this.api);
-
-    const sender = new User(
-      toSafeId(req.raw.user_id),
-      room.id,
-      this.api,
-      req.sender,
-      this.botId ? toSafeId(this.botId) : undefined
-    );
-
     const message = new Message(
       toSafeId(req.raw.id),
       parseInt(req.raw.type),
@@ -60,7 +146,40 @@ export class MessageProcessor {
       v
     );
 
+    // 권한, 참여 상태가 바뀐 사용자는 다시 조회하도록 캐시에서 제거
+    const roomId = toSafeId(req.raw.chat_id);
+    if (message.isFeedMessage()) {
+      this.modelCache.applyFeed(roomId, message.msg);
+    }
+
+    const room = this.modelCache.getRoom(roomId, req.room);
+
+    const sender = this.modelCache.getUser(
+      toSafeId(req.raw.user_id),
+      room.id,
+      req.sender || undefined,
+      this.botId ? toSafeId(this.botId) : undefined
+    );
+
     const chat = new ChatContext(room, sender, message, req.raw, this.api);
+    chat.backfilled = req.backfilled === true;
+    chat.botName = this.botName;
+    chat.resolveStorage = this.resolveStorage;
+
+    // 차단된 사용자의 이벤트는 컨트롤러에 전달하지 않음
+    if (
+      this.dropBannedUserEvents &&
+      (await BanManager.getInstance().isBanned(
+        sender.getIdAsString(),
+        room.getIdAsString()
+      ))
+    ) {
+      this.logger.debug('Dropped event from banned user', {
+        userId: sender.getIdAsString(),
+        roomId: room.getIdAsString(),
+      });
+      return;
+    }
 
     await this.processChat(chat);
   }
@@ -69,9 +188,17 @@ export class MessageProcessor {
    * Process chat context and emit appropriate events
    */
   private async processChat(chat: ChatContext): Promise<void> {
-    this.eventManager.emit('chat', [chat]);
-
     const origin = chat.message.v?.origin;
+
+    // 응답을 기다리는 질문(context.prompt)이 있으면 명령어 처리 전에 전달
+    if (
+      (origin === 'MSG' || origin === 'WRITE') &&
+      (await ConversationManager.getInstance().consume(chat))
+    ) {
+      this.logger.debug('Message consumed by pending prompt');
+      return;
+    }
+
     const messageType = chat.message.type;
     const isFeedMessage = chat.message.isFeedMessage();
 
@@ -83,19 +210,17 @@ export class MessageProcessor {
       vField: chat.message.v,
     });
 
+    let event: string;
     switch (origin) {
       case 'MSG':
       case 'WRITE':
-        this.logger.debug('Emitting message event');
-        this.eventManager.emit('message', [chat]);
+        event = 'message';
         break;
       case 'NEWMEM':
-        this.logger.debug('Emitting new_member event');
-        this.eventManager.emit('new_member', [chat]);
+        event = 'new_member';
         break;
       case 'DELMEM':
-        this.logger.debug('Emitting del_member event');
-        this.eventManager.emit('del_member', [chat]);
+        event = 'del_member';
         break;
       // Feed message origins
       case 'SYNCDLMSG':
@@ -104,13 +229,16 @@ export class MessageProcessor {
       case 'SYNCMEMT':
       case 'SYNCREWR':
       case 'FEED':
-        this.logger.debug('Emitting feed event', { origin, isFeedMessage });
-        this.eventManager.emit('feed', [chat]);
+        event = 'feed';
         break;
       default:
-        this.logger.debug('Emitting unknown event', { origin });
-        this.eventManager.emit('unknown', [chat]);
+        event = 'unknown';
         break;
     }
+
+    this.logger.debug(`Emitting ${event} event`, { origin, isFeedMessage });
+
+    // 미들웨어를 거쳐 chat 이벤트와 해당 이벤트를 발생 (모든 핸들러가 끝나면 반환)
+    await this.eventManager.dispatch(event, chat);
   }
 }
@@ -0,0 +1,202 @@
+/**
+ * Share Room and User instances (and their looked-up names, types and avatars) across events
+ */
+
+import type { IIrisAPI } from '@/types';
+import { Room, User } from '@/types/models/classes';
+import { ParsedMessageType } from '@/types/models/feed-types';
+import {
+  isLeaveUserFeed,
+  isOpenChatDemoteManagerFeed,
+  isOpenChatHandOverHostFeed,
+  isOpenChatKickedUserFeed,
+  isOpenChatPromoteManagerFeed,
+} from '@/types/models/utils';
+import { idToString } from '@/utils';
+import { Logger } from '@/utils/logger';
+
+export interface ModelCacheOptions {
+  enabled?: boolean; // 기본: true
+  ttlMs?: number; // 조회한 이름, 권한 등을 다시 사용할 시간 (기본: 5분)
+  maxEntries?: number; // 방, 사용자별 최대 개수, 초과 시 오래 사용하지 않은 항목부터 제거 (기본: 10000)
+}
+
+export interface ModelCacheStats {
+  hits: number; // 기존 인스턴스를 사용한 횟수
+  misses: number; // 새 인스턴스를 만든 횟수
+  invalidations: number; // 피드 이벤트, 닉네임 변경으로 제거한 횟수
+  rooms: number;
+  users: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  name?: string; // 이벤트로 받은 이름 (바뀌면 다시 조회)
+  expiresAt: number;
+}
+
+export class ModelCache {
+  private logger: Logger = new Logger('ModelCache');
+  private enabled: boolean;
+  private ttlMs: number;
+  private maxEntries: number;
+  // 삽입 순서 = 최근 사용 순서
+  private rooms = new Map<string, CacheEntry<Room>>();
+  private users = new Map<string, CacheEntry<User>>();
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(
+    private api: IIrisAPI,
+    options: ModelCacheOptions = {}
+  ) {
+    this.enabled = options.enabled ?? true;
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  /**
+   * Get the Room of an event (방 이름이 바뀌면 이름만 갱신)
+   */
+  getRoom(roomId: bigint, name: string): Room {
+    const key = idToString(roomId);
+    const entry = this.lookup(this.rooms, key);
+    if (entry) {
+      this.hits++;
+      entry.value.name = name;
+      return entry.value;
+    }
+
+    this.misses++;
+    const room = new Room(roomId, name, this.api);
+    this.store(this.rooms, key, { value: room });
+    return room;
+  }
+
+  /**
+   * Get the sender of an event
+   * 이벤트의 닉네임이 기억하고 있는 닉네임과 다르면 새로 조회하도록 교체
+   */
+  getUser(
+    userId: bigint,
+    roomId: bigint,
+    name: string | undefined,
+    botId: bigint | undefined
+  ): User {
+    const key = userKey(roomId, userId);
+    const entry = this.lookup(this.users, key);
+    if (entry && (name === undefined || entry.name === name)) {
+      this.hits++;
+      return entry.value;
+    }
+    if (entry) {
+      this.logger.debug('Nickname changed, refreshing user', {
+        userId: idToString(userId),
+        roomId: idToString(roomId),
+      });
+      this.invalidations++;
+    }
+
+    this.misses++;
+    const user = new User(userId, roomId, this.api, name, botId);
+    this.store(this.users, key, { value: user, name });
+    return user;
+  }
+
+  /**
+   * Forget users whose role or membership changed in a feed message
+   * 나가기/강퇴(2, 6), 부방장 지정/해제(11, 12), 방장 위임(15)
+   */
+  applyFeed(roomId: bigint, msg: ParsedMessageType): void {
+    let userIds: string[] = [];
+    if (
+      isLeaveUserFeed(msg) ||
+      isOpenChatKickedUserFeed(msg) ||
+      isOpenChatPromoteManagerFeed(msg) ||
+      isOpenChatDemoteManagerFeed(msg)
+    ) {
+      userIds = [msg.member?.userId];
+    } else if (isOpenChatHandOverHostFeed(msg)) {
+      userIds = [msg.newHost?.userId, msg.prevHost?.userId];
+    }
+
+    for (const userId of userIds) {
+      if (userId !== undefined && userId !== null) {
+        this.invalidateUser(roomId, userId);
+      }
+    }
+  }
+
+  invalidateUser(roomId: bigint | string, userId: bigint | string): void {
+    if (this.users.delete(userKey(roomId, userId))) {
+      this.invalidations++;
+    }
+  }
+
+  /**
+   * Forget a room and every user in it
+   */
+  invalidateRoom(roomId: bigint | string): void {
+    const prefix = `${idToString(roomId)}:`;
+    let removed = this.rooms.delete(idToString(roomId)) ? 1 : 0;
+    for (const key of this.users.keys()) {
+      if (key.startsWith(prefix)) {
+        this.users.delete(key);
+        removed++;
+      }
+    }
+    this.invalidations += removed;
+  }
+
+  clear(): void {
+    this.rooms.clear();
+    this.users.clear();
+  }
+
+  getStats(): ModelCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      rooms: this.rooms.size,
+      users: this.users.size,
+    };
+  }
+
+  private lookup<T>(
+    map: Map<string, CacheEntry<T>>,
+    key: string
+  ): CacheEntry<T> | undefined {
+    const entry = map.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        map.delete(key);
+      }
+      return undefined;
+    }
+
+    map.delete(key);
+    map.set(key, entry);
+    return entry;
+  }
+
+  private store<T>(
+    map: Map<string, CacheEntry<T>>,
+    key: string,
+    entry: Omit<CacheEntry<T>, 'expiresAt'>
+  ): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    map.set(key, { ...entry, expiresAt: Date.now() + this.ttlMs });
+    while (map.size > this.maxEntries) {
+      map.delete(map.keys().next().value as string);
+    }
+  }
+}
+
+function userKey(roomId: bigint | string, userId: bigint | string): string {
+  return `${idToString(roomId)}:${idToString(userId)}`;
+}
@@ -0,0 +1,429 @@
+/**
+ * Permission management: named roles, per-user and per-room grants and permission strings
+ *
+ * 권한 문자열은 점으로 구분된 이름입니다 (예: `music.skip`).
+ * `music.*`는 `music`으로 시작하는 모든 권한, `*`는 모든 권한과 일치합니다.
+ * 카카오톡 멤버 타입(HOST, MANAGER, NORMAL, BOT)은 기본 역할로 사용됩니다.
+ */
+
+import { getScopedStorage } from '@/services/storage';
+import { ValidationError } from '@/types';
+import type { ChatContext } from '@/types/models';
+import { Logger } from '@/utils/logger';
+
+export interface RoleDefinition {
+  name: string;
+  permissions: string[]; // `-`로 시작하면 거부 (예: `-music.skip`)
+  inherits?: string[]; // 상속할 역할 이름
+  description?: string;
+}
+
+export type RoleOptions = Omit<RoleDefinition, 'name'>;
+
+/**
+ * Grant target
+ * - userId만 지정: 모든 방에서 사용자에게 적용
+ * - userId와 roomId 지정: 해당 방에서만 사용자에게 적용
+ * - roomId만 지정: 해당 방의 모든 사용자에게 적용
+ */
+export interface PermissionTarget {
+  userId?: string;
+  roomId?: string;
+}
+
+export interface PermissionGrant {
+  permissions: string[];
+  roles: string[];
+}
+
+export interface PermissionSubject {
+  userId: string;
+  roomId?: string;
+  memberType?: string | null; // 카카오톡 멤버 타입 (기본 역할)
+}
+
+// 카카오톡 멤버 타입에 대응하는 기본 역할
+const DEFAULT_ROLES: RoleDefinition[] = [
+  { name: 'BOT', permissions: [], description: '봇' },
+  { name: 'NORMAL', permissions: [], description: '일반 멤버' },
+  {
+    name: 'MANAGER',
+    permissions: ['admin'],
+    inherits: ['NORMAL'],
+    description: '부방장',
+  },
+  {
+    name: 'HOST',
+    permissions: ['admin', 'permissions.manage'],
+    inherits: ['MANAGER'],
+    description: '방장',
+  },
+];
+
+// 방 단위 관리자가 부여할 수 없는 권한 (다른 방까지 관리하거나 스스로 권한을 넓힐 수 있음)
+const PRIVILEGED_PERMISSIONS = ['admin', 'permissions.manage'];
+
+const PERMISSION_PATTERN = /^(\*|[^\s.*-][^\s.*]*(\.[^\s.*]+)*(\.\*)?)$/;
+
+export class PermissionManager {
+  private static instance: PermissionManager | null = null;
+
+  private logger: Logger = new Logger('PermissionManager');
+  private roles = new Map<string, RoleDefinition>();
+
+  private constructor() {
+    for (const role of DEFAULT_ROLES) {
+      this.roles.set(role.name, role);
+    }
+  }
+
+  static getInstance(): PermissionManager {
+    if (!PermissionManager.instance) {
+      PermissionManager.instance = new PermissionManager();
+    }
+    return PermissionManager.instance;
+  }
+
+  /**
+   * Define or replace a role (including the default member type roles)
+   */
+  defineRole(name: string, options: RoleOptions): RoleDefinition {
+    for (const permission of options.permissions) {
+      this.validatePermission(permission.replace(/^-/, ''));
+    }
+
+    const role: RoleDefinition = {
+      name,
+      permissions: [...options.permissions],
+      inherits: options.inherits ? [...options.inherits] : undefined,
+      description: options.description,
+    };
+    this.roles.set(name, role);
+    return role;
+  }
+
+  /**
+   * Remove a role definition
+   */
+  removeRole(name: string): boolean {
+    return this.roles.delete(name);
+  }
+
+  getRole(name: string): RoleDefinition | undefined {
+    return this.roles.get(name);
+  }
+
+  listRoles(): RoleDefinition[] {
+    return Array.from(this.roles.values());
+  }
+
+  /**
+   * Allow a permission for a user, a user in a room, or everyone in a room
+   */
+  async grant(target: PermissionTarget, permission: string): Promise<void> {
+    this.validatePermission(permission);
+    await this.updateGrant(target, (grant) => {
+      grant.permissions = grant.permissions.filter(
+        (p) => p !== permission && p !== `-${permission}`
+      );
+      grant.permissions.push(permission);
+    });
+    this.logger.info(`Granted ${permission} to ${this.describe(target)}`);
+  }
+
+  /**
+   * Explicitly deny a permission (overrides grants from roles)
+   */
+  async deny(target: PermissionTarget, permission: string): Promise<void> {
+    this.validatePermission(permission);
+    await this.updateGrant(target, (grant) => {
+      grant.permissions = grant.permissions.filter(
+        (p) => p !== permission && p !== `-${permission}`
+      );
+      grant.permissions.push(`-${permission}`);
+    });
+    this.logger.info(`Denied ${permission} to ${this.describe(target)}`);
+  }
+
+  /**
+   * Remove a grant or denial of a permission
+   * @returns 제거된 항목이 있으면 true
+   */
+  async revoke(target: PermissionTarget, permission: string): Promise<boolean> {
+    let removed = false;
+    await this.updateGrant(target, (grant) => {
+      const before = grant.permissions.length;
+      grant.permissions = grant.permissions.filter(
+        (p) => p !== permission && p !== `-${permission}`
+      );
+      removed = grant.permissions.length !== before;
+    });
+    if (removed) {
+      this.logger.info(`Revoked ${permission} from ${this.describe(target)}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Assign a role to a user, a user in a room, or everyone in a room
+   */
+  async assignRole(target: PermissionTarget, role: string): Promise<void> {
+    if (!this.roles.has(role)) {
+      throw new ValidationError(`Unknown role: ${role}`, { role });
+    }
+
+    await this.updateGrant(target, (grant) => {
+      if (!grant.roles.includes(role)) {
+        grant.roles.push(role);
+      }
+    });
+    this.logger.info(`Assigned role ${role} to ${this.describe(target)}`);
+  }
+
+  /**
+   * Remove an assigned role
+   * @returns 제거된 역할이 있으면 true
+   */
+  async unassignRole(target: PermissionTarget, role: string): Promise<boolean> {
+    let removed = false;
+    await this.updateGrant(target, (grant) => {
+      removed = grant.roles.includes(role);
+      grant.roles = grant.roles.filter((r) => r !== role);
+    });
+    if (removed) {
+      this.logger.info(`Unassigned role ${role} from ${this.describe(target)}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Check if a permission pattern includes admin or permission management (`*`, `admin`, `permissions.*` 등)
+   * @param extra - 함께 확인할 권한 (예: 권한 관리 명령어에 필요한 권한)
+   */
+  isPrivilegedPermission(permission: string, extra: string[] = []): boolean {
+    const pattern = permission.replace(/^-/, '');
+    if (pattern !== permission) {
+      return false;
+    }
+    return [...PRIVILEGED_PERMISSIONS, ...extra].some((privileged) =>
+      matchPermission(pattern, privileged)
+    );
+  }
+
+  /**
+   * Check if a role (including inherited roles) grants a privileged permission
+   */
+  isPrivilegedRole(role: string, extra: string[] = []): boolean {
+    return this.expandRoles([role]).some((name) =>
+      (this.roles.get(name)?.permissions || []).some((permission) =>
+        this.isPrivilegedPermission(permission, extra)
+      )
+    );
+  }
+
+  /**
+   * Get the grants stored for a target (without roles or inherited permissions)
+   */
+  async getGrant(target: PermissionTarget): Promise<PermissionGrant> {
+    const grant = await this.storage().get<PermissionGrant>(
+      this.getKey(target)
+    );
+    return {
+      permissions: grant?.permissions || [],
+      roles: grant?.roles || [],
+    };
+  }
+
+  /**
+   * Get the effective roles of a user, including the member type and inherited roles
+   * @param inherit - false이면 상속한 역할을 제외하고 멤버 타입과 직접 부여된 역할만 반환
+   */
+  async getRoles(
+    subject: PermissionSubject,
+    inherit: boolean = true
+  ): Promise<string[]> {
+    const grants = await this.getSubjectGrants(subject);
+    const assigned = grants.flatMap((grant) => grant.roles);
+    if (subject.memberType) {
+      assigned.push(subject.memberType);
+    }
+    return inherit ? this.expandRoles(assigned) : Array.from(new Set(assigned));
+  }
+
+  /**
+   * Check if a user has a permission
+   * 우선순위: 방별 사용자 권한 > 전역 사용자 권한 > 방 권한 > 역할 권한
+   * 같은 단계에서는 더 구체적인 권한이 우선하며, 같으면 거부가 우선합니다.
+   */
+  async hasPermission(
+    subject: PermissionSubject,
+    permission: string
+  ): Promise<boolean> {
+    const grants = await this.getSubjectGrants(subject);
+
+    for (const grant of grants) {
+      const decision = resolvePermission(grant.permissions, permission);
+      if (decision !== undefined) {
+        return decision;
+      }
+    }
+
+    const roles = await this.getRoles(subject);
+    const rolePermissions = roles.flatMap(
+      (role) => this.roles.get(role)?.permissions || []
+    );
+    return resolvePermission(rolePermissions, permission) || false;
+  }
+
+  /**
+   * Check if the sender of a chat context has a permission
+   */
+  async can(context: ChatContext, permission: string): Promise<boolean> {
+    return this.hasPermission(
+      await this.getContextSubject(context),
+      permission
+    );
+  }
+
+  /**
+   * Build a permission subject from a chat context
+   */
+  async getContextSubject(context: ChatContext): Promise<PermissionSubject> {
+    return {
+      userId: context.sender.getIdAsString(),
+      roomId: context.room.getIdAsString(),
+      memberType: await context.sender.getType(),
+    };
+  }
+
+  private storage() {
+    return getScopedStorage('permissions');
+  }
+
+  private getKey(target: PermissionTarget): string {
+    if (target.userId !== undefined && target.roomId !== undefined) {
+      return `room:${target.roomId}:user:${target.userId}`;
+    }
+    if (target.userId !== undefined) {
+      return `user:${target.userId}`;
+    }
+    if (target.roomId !== undefined) {
+      return `room:${target.roomId}`;
+    }
+    throw new ValidationError('Permission target requires userId or roomId');
+  }
+
+  private describe(target: PermissionTarget): string {
+    if (target.userId !== undefined) {
+      return `user ${target.userId}${target.roomId !== undefined ? ` in room ${target.roomId}` : ' globally'}`;
+    }
+    return `room ${target.roomId}`;
+  }
+
+  private validatePermission(permission: string): void {
+    if (!PERMISSION_PATTERN.test(permission)) {
+      throw new ValidationError(`Invalid permission: ${permission}`, {
+        permission,
+      });
+    }
+  }
+
+  private async updateGrant(
+    target: PermissionTarget,
+    update: (grant: PermissionGrant) => void
+  ): Promise<void> {
+    const normalized: PermissionTarget = {
+      userId: target.userId !== undefined ? String(target.userId) : undefined,
+      roomId: target.roomId !== undefined ? String(target.roomId) : undefined,
+    };
+    const key = this.getKey(normalized);
+    const grant = await this.getGrant(normalized);
+    update(grant);
+
+    if (grant.permissions.length === 0 && grant.roles.length === 0) {
+      await this.storage().delete(key);
+    } else {
+      await this.storage().set(key, grant);
+    }
+  }
+
+  // 우선순위 순서대로 적용되는 권한 목록
+  private async getSubjectGrants(
+    subject: PermissionSubject
+  ): Promise<PermissionGrant[]> {
+    const userId = String(subject.userId);
+    const roomId =
+      subject.roomId !== undefined ? String(subject.roomId) : undefined;
+
+    const targets: PermissionTarget[] = [];
+    if (roomId !== undefined) {
+      targets.push({ userId, roomId });
+    }
+    targets.push({ userId });
+    if (roomId !== undefined) {
+      targets.push({ roomId });
+    }
+
+    return Promise.all(targets.map((target) => this.getGrant(target)));
+  }
+
+  private expandRoles(names: string[]): string[] {
+    const result: string[] = [];
+    const visit = (name: string) => {
+      if (result.includes(name)) {
+        return;
+      }
+      result.push(name);
+      for (const parent of this.roles.get(name)?.inherits || []) {
+        visit(parent);
+      }
+    };
+    names.forEach(visit);
+    return result;
+  }
+}
+
+/**
+ * Check if a permission pattern (e.g. `music.*`) matches a permission
+ */
+export function matchPermission(pattern: string, permission: string): boolean {
+  if (pattern === '*' || pattern === permission) {
+    return true;
+  }
+  return (
+    pattern.endsWith('.*') &&
+    permission.startsWith(pattern.substring(0, pattern.length - 1))
+  );
+}
+
+/**
+ * Resolve a permission against a list of grants
+ * @returns 허용이면 true, 거부면 false, 일치하는 항목이 없으면 undefined
+ */
+function resolvePermission(
+  grants: string[],
+  permission: string
+): boolean | undefined {
+  let decision: boolean | undefined;
+  let bestSpecificity = -1;
+
+  for (const grant of grants) {
+    const denied = grant.startsWith('-');
+    const pattern = denied ? grant.substring(1) : grant;
+    if (!matchPermission(pattern, permission)) {
+      continue;
+    }
+
+    const specificity =
+      pattern === permission ? Number.MAX_SAFE_INTEGER : pattern.length;
+    if (
+      specificity > bestSpecificity ||
+      (specificity === bestSpecificity && denied)
+    ) {
+      bestSpecificity = specificity;
+      decision = !denied;
+    }
+  }
+
+  return decision;
+}
@@ -1,12 +1,40 @@
 import express = require('express');
+import * as crypto from 'crypto';
+import { ValidationError } from '@/types';
 import { IrisRequest } from '@/types/models/base';
 import { Logger } from '@/utils/logger';
+import {
+  TaskQueue,
+  TaskQueueOptions,
+  TaskQueueStats,
+} from '@/utils/task-queue';
 
-export interface WebhookManagerOptions {
+/**
+ * Webhook endpoint security
+ * - secret: `X-Iris-Secret` 헤더, `Authorization: Bearer <secret>` 또는 `?secret=` 쿼리로 전달
+ * - hmacSecret: 요청 본문의 HMAC-SHA256 서명을 `X-Iris-Signature: sha256=<hex>` 헤더로 전달
+ * 둘 다 지정하면 둘 중 하나만 통과해도 허용합니다.
+ */
+export interface WebhookOptions {
+  secret?: string;
+  hmacSecret?: string;
+  signatureHeader?: string; // 서명 헤더 이름 (기본: x-iris-signature)
+  allowedIps?: string[]; // 허용할 IP 또는 IPv4 CIDR (예: 192.168.0.0/24), 비어 있으면 모두 허용
+  trustProxy?: number | string | string[]; // 리버스 프록시 뒤에서 X-Forwarded-For의 클라이언트 IP 사용: 신뢰할 프록시 수(hop) 또는 프록시 IP/CIDR 목록
+  bodyLimit?: string | number; // 요청 본문 최대 크기 (기본: '1mb')
+  ackMode?: 'sync' | 'async'; // async: 큐에 넣고 바로 응답 (기본: sync, 처리가 끝난 뒤 응답)
+  queue?: TaskQueueOptions; // ackMode가 async일 때 사용할 큐 (동시 처리 수, 최대 크기, 초과 시 처리 방식)
+  health?: 'protected' | 'public'; // GET /health 접근 제한 (기본: 'protected', 웹훅과 같은 IP·비밀키 검사)
+}
+
+export interface WebhookManagerOptions extends WebhookOptions {
   port?: number;
   path?: string;
 }
 
+// 본문 파서가 서명 검증을 위해 보관하는 원본 본문
+type RawBodyRequest = express.Request & { rawBody?: Buffer };
+
 export class WebhookManager {
   private expressApp?: express.Application;
   private httpServer?: any;
@@ -14,7 +42,11 @@ export class WebhookManager {
   private webhookPort: number;
   private webhookPath: string;
   private botName: string;
+  private options: WebhookOptions;
+  private queue?: TaskQueue<IrisRequest>;
   private onMessageCallback?: (data: IrisRequest) => Promise<void>;
+  private stopping = false;
+  private onStopped?: () => void;
 
   constructor(
     botName: string,
@@ -25,6 +57,17 @@ export class WebhookManager {
     this.logger = logger;
     this.webhookPort = options.port || 3001;
     this.webhookPath = options.path || '/webhook/message';
+    this.options = options;
+
+    if (options.ackMode === 'async') {
+      this.queue = new TaskQueue(
+        'WebhookQueue',
+        async (request) => {
+          await this.onMessageCallback?.(request);
+        },
+        options.queue
+      );
+    }
   }
 
   /**
@@ -38,83 +81,165 @@ export class WebhookManager {
    * Setup and start the webhook server
    */
   start(): void {
+    this.stopping = false;
     this.expressApp = express();
+    const bodyLimit = this.options.bodyLimit ?? '1mb';
 
-    // Body parser middleware with increased limits for large messages
-    this.expressApp.use(
-      express.json({
-        limit: '50mb',
-        type: ['application/json', 'text/plain'],
-      })
-    );
-    this.expressApp.use(
-      express.urlencoded({
-        extended: true,
-        limit: '50mb',
-        parameterLimit: 50000,
-      })
-    );
+    // 모든 프록시를 신뢰하면 클라이언트가 X-Forwarded-For로 IP를 위조할 수 있으므로 true는 사용하지 않음
+    if (this.options.trustProxy) {
+      this.expressApp.set('trust proxy', this.options.trustProxy);
+    }
+
+    if (!this.options.secret && !this.options.hmacSecret) {
+      this.logger.warn(
+        'Webhook endpoint has no secret configured. Any client that can reach it can send events.'
+      );
+    }
 
     // Health check endpoint
     this.expressApp.get('/health', (req, res) => {
-      res.json({ status: 'OK', mode: 'webhook', bot: this.botName });
+      // 큐 상태가 노출되므로 기본적으로 웹훅과 같은 검사를 거침 (HMAC은 빈 본문에 대한 서명)
+      if (this.options.health !== 'public') {
+        if (!this.isIpAllowed(req)) {
+          this.logger.warn(`Rejected health check from ${req.ip}`);
+          res.status(403).json({ error: 'Forbidden' });
+          return;
+        }
+        (req as RawBodyRequest).rawBody = Buffer.alloc(0);
+        if (!this.isAuthorized(req as RawBodyRequest)) {
+          this.logger.warn(`Unauthorized health check from ${req.ip}`);
+          res.status(401).json({ error: 'Unauthorized' });
+          return;
+        }
+      }
+
+      res.json({
+        status: 'OK',
+        mode: 'webhook',
+        bot: this.botName,
+        ...(this.queue && { queue: this.queue.getStats() }),
+      });
     });
 
     // Webhook endpoint
-    this.expressApp.post(this.webhookPath, async (req, res) => {
-      try {
-        const requestData = req.body;
-
-        this.logger.debug('Webhook received data:', requestData);
+    this.expressApp.post(
+      this.webhookPath,
+      (req, res, next) => {
+        // 종료 중에는 새 요청을 받지 않음 (Iris가 재전송하도록 503)
+        if (this.stopping) {
+          res.status(503).json({ error: 'Shutting down' });
+          return;
+        }
 
-        if (!requestData) {
-          res.status(400).json({ error: 'No data received' });
+        // 본문을 읽기 전에 IP 확인
+        if (!this.isIpAllowed(req)) {
+          this.logger.warn(`Rejected webhook request from ${req.ip}`);
+          res.status(403).json({ error: 'Forbidden' });
+          return;
+        }
+        next();
+      },
+      express.json({
+        limit: bodyLimit,
+        type: ['application/json', 'text/plain'],
+        verify: (req, res, buf) => {
+          (req as RawBodyRequest).rawBody = buf;
+        },
+      }),
+      async (req, res) => {
+        if (!this.isAuthorized(req as RawBodyRequest)) {
+          this.logger.warn(`Unauthorized webhook request from ${req.ip}`);
+          res.status(401).json({ error: 'Unauthorized' });
           return;
         }
 
-        // Convert webhook data to IrisRequest format
         let irisRequest: IrisRequest;
-
-        if (requestData.json) {
-          // If data has 'json' field, use it as raw data
-          irisRequest = {
-            room: requestData.room,
-            sender: requestData.sender,
-            raw: requestData.json,
-          };
-        } else if (requestData.raw) {
-          // If data already has 'raw' field (standard IrisRequest format)
-          irisRequest = requestData as IrisRequest;
-        } else {
-          // Try to use the entire request body as raw data
-          irisRequest = {
-            room: requestData.room || 'Unknown',
-            sender: requestData.sender || 'Unknown',
-            raw: requestData,
-          };
+        try {
+          this.logger.debug('Webhook received data:', req.body);
+          irisRequest = parseWebhookPayload(req.body);
+        } catch (error) {
+          if (!(error instanceof ValidationError)) {
+            throw error;
+          }
+          this.logger.warn(`Invalid webhook payload: ${error.message}`);
+          res.status(400).json({
+            error: error.message,
+            details: error.details?.errors,
+          });
+          return;
         }
 
-        this.logger.debug('Processed IrisRequest:', {
-          room: irisRequest.room,
-          sender: irisRequest.sender,
-          rawKeys: Object.keys(irisRequest.raw),
-        });
+        try {
+          this.logger.debug('Processed IrisRequest:', {
+            room: irisRequest.room,
+            sender: irisRequest.sender,
+            rawKeys: Object.keys(irisRequest.raw),
+          });
+
+          // 큐에 넣고 바로 응답 (처리는 백그라운드에서)
+          if (this.queue) {
+            if (!this.queue.push(irisRequest)) {
+              this.logger.warn('Webhook queue full, rejected request');
+              res.status(503).json({ error: 'Queue full' });
+              return;
+            }
+            res.status(202).json({ status: 'OK', queued: true });
+            return;
+          }
 
-        // Process the request
-        if (this.onMessageCallback) {
-          await this.onMessageCallback(irisRequest);
+          // Process the request
+          if (this.onMessageCallback) {
+            await this.onMessageCallback(irisRequest);
+          }
+
+          res.json({ status: 'OK', processed: true });
+        } catch (error) {
+          this.logger.error('Webhook processing error:', error);
+
+          res.status(500).json({
+            error: 'Internal server error',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    );
+
+    // Body parser errors (too large, malformed JSON, unsupported charset)
+    this.expressApp.use(
+      (
+        error: any,
+        req: express.Request,
+        res: express.Response,
+        next: express.NextFunction
+      ) => {
+        if (res.headersSent) {
+          next(error);
+          return;
         }
 
-        res.json({ status: 'OK', processed: true });
-      } catch (error) {
-        this.logger.error('Webhook processing error:', error);
+        const status =
+          typeof error?.status === 'number' &&
+          error.status >= 400 &&
+          error.status < 500
+            ? error.status
+            : 500;
+        if (status === 500) {
+          this.logger.error('Webhook server error:', error);
+        } else {
+          this.logger.warn(`Rejected webhook request: ${error.message}`);
+        }
 
-        res.status(500).json({
-          error: 'Internal server error',
-          details: error instanceof Error ? error.message : 'Unknown error',
+        res.status(status).json({
+          error:
+            status === 413
+              ? 'Payload too large'
+              : status === 500
+                ? 'Internal server error'
+                : 'Bad request',
+          details: error?.message,
         });
       }
-    });
+    );
 
     // Start HTTP server
     this.httpServer = this.expressApp.listen(this.webhookPort, () => {
@@ -126,22 +251,209 @@ export class WebhookManager {
   }
 
   /**
-   * Stop the webhook server
+   * Stop the webhook server (requests already accepted keep being processed)
    */
   stop(): void {
+    this.stopping = true;
     if (this.httpServer) {
       this.httpServer.close(() => {
         this.logger.info('HTTP webhook server stopped');
       });
     }
+    this.onStopped?.();
+    this.onStopped = undefined;
+  }
+
+  /**
+   * Wait until all queued requests have been processed (async ack mode)
+   */
+  onIdle(): Promise<void> {
+    return this.queue ? this.queue.onIdle() : Promise.resolve();
+  }
+
+  /**
+   * Get the async ack queue statistics (undefined in sync mode)
+   */
+  getQueueStats(): TaskQueueStats | undefined {
+    return this.queue?.getStats();
+  }
+
+  /**
+   * Check the client IP against the allowlist
+   */
+  private isIpAllowed(req: express.Request): boolean {
+    const allowedIps = this.options.allowedIps;
+    if (!allowedIps || allowedIps.length === 0) {
+      return true;
+    }
+
+    const clientIp = normalizeIp(
+      (this.options.trustProxy ? req.ip : req.socket.remoteAddress) || ''
+    );
+    return allowedIps.some((allowed) => matchIp(allowed, clientIp));
+  }
+
+  /**
+   * Verify the shared secret or HMAC signature
+   */
+  private isAuthorized(req: RawBodyRequest): boolean {
+    const { secret, hmacSecret } = this.options;
+    if (!secret && !hmacSecret) {
+      return true;
+    }
+
+    if (secret) {
+      const authorization = req.get('authorization') || '';
+      const candidates = [
+        req.get('x-iris-secret'),
+        authorization.startsWith('Bearer ')
+          ? authorization.substring(7)
+          : undefined,
+        typeof req.query.secret === 'string' ? req.query.secret : undefined,
+      ];
+      if (candidates.some((value) => value && safeEqual(value, secret))) {
+        return true;
+      }
+    }
+
+    if (hmacSecret) {
+      const header = req.get(
+        this.options.signatureHeader || 'x-iris-signature'
+      );
+      if (header && req.rawBody) {
+        const expected = crypto
+          .createHmac('sha256', hmacSecret)
+          .update(req.rawBody)
+          .digest('hex');
+        const signature = header.replace(/^sha256=/, '').toLowerCase();
+        if (safeEqual(signature, expected)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
   }
 
   /**
    * Keep the process alive in webhook mode
    */
   async keepAlive(): Promise<void> {
-    return new Promise(() => {
-      // Process will stay alive due to HTTP server
+    // Process will stay alive due to HTTP server, resolves when stop() is called
+    return new Promise((resolve) => {
+      this.onStopped = resolve;
+    });
+  }
+}
+
+/**
+ * Validate a webhook payload and convert it to an IrisRequest
+ * Iris 웹훅 형식(`json` 필드) 또는 IrisRequest 형식(`raw` 필드)을 허용합니다.
+ */
+export function parseWebhookPayload(body: any): IrisRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object', {
+      errors: ['body: expected object'],
     });
   }
+
+  const raw = body.json ?? body.raw;
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push('json: expected object (or raw)');
+  } else {
+    for (const field of ['id', 'chat_id', 'user_id', 'type']) {
+      if (!isIdLike(raw[field])) {
+        errors.push(`json.${field}: expected number or numeric string`);
+      }
+    }
+    if (
+      raw.message !== undefined &&
+      raw.message !== null &&
+      typeof raw.message !== 'string'
+    ) {
+      errors.push('json.message: expected string');
+    }
+    if (
+      raw.v !== undefined &&
+      raw.v !== null &&
+      typeof raw.v !== 'string' &&
+      typeof raw.v !== 'object'
+    ) {
+      errors.push('json.v: expected string or object');
+    }
+  }
+
+  for (const field of ['room', 'sender']) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') {
+      errors.push(`${field}: expected string`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid Iris webhook payload', { errors });
+  }
+
+  return {
+    room: body.room || '',
+    sender: body.sender || '',
+    raw,
+  };
+}
+
+function isIdLike(value: any): boolean {
+  return (
+    (typeof value === 'number' && Number.isInteger(value)) ||
+    (typeof value === 'string' && /^-?\d+$/.test(value))
+  );
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// IPv4-mapped IPv6 주소(::ffff:192.168.0.1)를 IPv4로 변환
+function normalizeIp(ip: string): string {
+  return ip.startsWith('::ffff:') && ip.includes('.') ? ip.substring(7) : ip;
+}
+
+function matchIp(allowed: string, ip: string): boolean {
+  const [range, bits] = allowed.split('/');
+  if (bits === undefined) {
+    return normalizeIp(range) === ip;
+  }
+
+  const rangeValue = ipv4ToNumber(range);
+  const ipValue = ipv4ToNumber(ip);
+  const prefix = Number(bits);
+  if (
+    rangeValue === null ||
+    ipValue === null ||
+    !(prefix >= 0 && prefix <= 32)
+  ) {
+    return false;
+  }
+
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  return (rangeValue & mask) >>> 0 === (ipValue & mask) >>> 0;
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d+$/.test(part) || octet > 255) {
+      return null;
+    }
+    value = value * 256 + octet;
+  }
+  return value;
 }
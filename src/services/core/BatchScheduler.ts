@@ -2,8 +2,19 @@
  * Batch Scheduler for handling scheduled tasks and message batching
  */
 
+import {
+  getScopedStorage,
+  getStorageAdapter,
+  StorageAdapter,
+} from '@/services/storage';
+import { ValidationError } from '@/types';
 import { ChatContext } from '@/types/models';
 import { Logger } from '@/utils/logger';
+import {
+  getNextOccurrence,
+  isValidTimeZone,
+  parseRecurrence,
+} from '@/utils/recurrence';
 import { EventEmitter } from 'events';
 import * as cron from 'node-cron';
 
@@ -25,13 +36,61 @@ export interface ScheduleTask {
   isActive: boolean;
 }
 
+/**
+ * 재시작 등으로 놓친 예약 메시지 처리 방식
+ * - skip: 놓친 발송은 건너뛰고 다음 예약부터 발송
+ * - late: 놓친 발송을 늦게 발송 (최근 5번까지)
+ * - once: 놓친 발송이 여러 번이어도 한 번만 늦게 발송
+ */
+export type MissedFirePolicy = 'skip' | 'late' | 'once';
+
 export interface ScheduledMessage {
   id: string;
   roomId: string;
   message: string;
-  scheduledTime: number;
+  scheduledTime: number; // 다음 발송 시각
   isProcessed: boolean;
   metadata?: any;
+  recurrence?: string; // cron 표현식 또는 "every weekday 9:00" 형식의 반복 규칙
+  timezone?: string; // 반복 규칙에 사용할 IANA 타임존 (예: 'Asia/Seoul')
+  missedFirePolicy?: MissedFirePolicy;
+  endTime?: number; // 반복 종료 시각
+  lastFiredAt?: number;
+  fireCount?: number;
+  missed?: boolean; // 이벤트 전달 시, 놓친 예약을 늦게 발송하는 경우 true
+}
+
+export interface ScheduledMessageOptions {
+  missedFirePolicy?: MissedFirePolicy;
+  timezone?: string;
+  startTime?: number; // 반복 규칙 계산 시작 시각 (기본: 현재)
+  endTime?: number;
+  metadata?: any;
+}
+
+export interface ScheduledMessageUpdate {
+  message?: string;
+  scheduledTime?: number;
+  recurrence?: string | null; // null이면 반복 해제
+  timezone?: string;
+  missedFirePolicy?: MissedFirePolicy;
+  endTime?: number | null;
+  metadata?: any;
+}
+
+export interface BatchSchedulerOptions {
+  missedFirePolicy?: MissedFirePolicy; // 기본: 'late'
+  missedFireGraceMs?: number; // 이 시간보다 늦으면 놓친 예약으로 간주 (기본: 60초)
+  timezone?: string; // 반복 규칙 기본 타임존 (기본: 시스템 타임존)
+}
+
+// 'late' 정책에서 한 번에 늦게 발송하는 최대 횟수 (오래 꺼져 있던 경우 같은 메시지가 연달아 쌓이지 않도록)
+const MAX_LATE_FIRES = 5;
+
+// 재시작 후에도 유지되는 스케줄 태스크 상태
+interface PersistedTaskState {
+  lastRun: number;
+  isActive: boolean;
 }
 
 export interface BootstrapHandler {
@@ -39,22 +98,44 @@ export interface BootstrapHandler {
   priority: number;
 }
 
+export type ShutdownHandler = BootstrapHandler;
+
 export class BatchScheduler {
   private static instance: BatchScheduler | null = null;
 
   private scheduleTasks = new Map<string, ScheduleTask>();
   private scheduledMessages = new Map<string, ScheduledMessage>();
   private bootstrapHandlers: BootstrapHandler[] = [];
+  private shutdownHandlers: ShutdownHandler[] = [];
   private isRunning = false;
   private tickInterval = 1000; // 1초마다 체크
   private timer?: NodeJS.Timeout;
   private logger: Logger;
   private eventEmitter = new EventEmitter();
+  private isRestored = false;
+  private missedFirePolicy: MissedFirePolicy = 'late';
+  private missedFireGraceMs = 60 * 1000; // 1분 이상 늦으면 놓친 예약으로 간주
+  private timezone?: string;
+
+  private namespace: string;
+  private resolveStorage: () => StorageAdapter;
 
-  private constructor() {
+  /**
+   * @param namespace - 상태 저장소 키 접두사 (봇마다 다르게 지정하여 예약 메시지를 분리)
+   * @param resolveStorage - 상태 저장소 (기본: 전역 저장소)
+   */
+  constructor(
+    namespace: string = 'scheduler',
+    resolveStorage: () => StorageAdapter = getStorageAdapter
+  ) {
+    this.namespace = namespace;
+    this.resolveStorage = resolveStorage;
     this.logger = new Logger('BatchScheduler');
   }
 
+  /**
+   * Get the default scheduler (used by the default bot and scheduleMessage helpers)
+   */
   static getInstance(): BatchScheduler {
     if (!BatchScheduler.instance) {
       BatchScheduler.instance = new BatchScheduler();
@@ -62,6 +143,19 @@ export class BatchScheduler {
     return BatchScheduler.instance;
   }
 
+  /**
+   * 예약 메시지 기본 정책 설정
+   */
+  configure(options: BatchSchedulerOptions): void {
+    if (options.timezone && !isValidTimeZone(options.timezone)) {
+      throw new ValidationError(`Invalid time zone: ${options.timezone}`);
+    }
+    this.missedFirePolicy = options.missedFirePolicy ?? this.missedFirePolicy;
+    this.missedFireGraceMs =
+      options.missedFireGraceMs ?? this.missedFireGraceMs;
+    this.timezone = options.timezone ?? this.timezone;
+  }
+
   /**
    * 스케줄 태스크 등록 (인터벌 기반)
    */
@@ -83,6 +177,12 @@ export class BatchScheduler {
     this.logger.info(
       `Registered schedule task: ${id} (interval: ${interval}ms)`
     );
+
+    if (this.isRestored) {
+      this.restoreTaskState(task).catch((error) => {
+        this.logger.error(`Failed to restore schedule task ${id}:`, error);
+      });
+    }
   }
 
   /**
@@ -118,12 +218,19 @@ export class BatchScheduler {
         }
       }
       task.lastRun = Date.now();
+      this.persistTaskState(task);
     });
 
     this.scheduleTasks.set(id, task);
     this.logger.info(
       `Registered cron task: ${id} (expression: ${cronExpression})`
     );
+
+    if (this.isRestored) {
+      this.restoreTaskState(task).catch((error) => {
+        this.logger.error(`Failed to restore cron task ${id}:`, error);
+      });
+    }
   }
 
   /**
@@ -149,7 +256,8 @@ export class BatchScheduler {
     roomId: string,
     message: string,
     scheduledTime: number,
-    metadata?: any
+    metadata?: any,
+    options: Pick<ScheduledMessageOptions, 'missedFirePolicy'> = {}
   ): void {
     const scheduledMessage: ScheduledMessage = {
       id,
@@ -158,14 +266,130 @@ export class BatchScheduler {
       scheduledTime,
       isProcessed: false,
       metadata,
+      missedFirePolicy: options.missedFirePolicy,
     };
 
     this.scheduledMessages.set(id, scheduledMessage);
+    this.persistScheduledMessage(scheduledMessage);
     this.logger.info(
       `Scheduled message: ${id} for room ${roomId} at ${new Date(scheduledTime).toISOString()}`
     );
   }
 
+  /**
+   * 반복 예약 메시지 등록
+   * @param recurrence - cron 표현식 ('0 9 * * 1-5') 또는 텍스트 규칙 ('every weekday 9:00')
+   */
+  scheduleRecurringMessage(
+    id: string,
+    roomId: string,
+    message: string,
+    recurrence: string,
+    options: ScheduledMessageOptions = {}
+  ): ScheduledMessage {
+    const timezone = options.timezone || this.timezone;
+    this.validateRecurrence(recurrence, timezone);
+
+    const scheduledTime = getNextOccurrence(
+      recurrence,
+      (options.startTime ?? Date.now()) - 1,
+      timezone
+    );
+    if (scheduledTime === null) {
+      throw new ValidationError(
+        `Recurrence rule has no upcoming occurrence: ${recurrence}`
+      );
+    }
+
+    const scheduledMessage: ScheduledMessage = {
+      id,
+      roomId,
+      message,
+      scheduledTime,
+      isProcessed: false,
+      metadata: options.metadata,
+      recurrence,
+      timezone: options.timezone,
+      missedFirePolicy: options.missedFirePolicy,
+      endTime: options.endTime,
+      fireCount: 0,
+    };
+
+    this.scheduledMessages.set(id, scheduledMessage);
+    this.persistScheduledMessage(scheduledMessage);
+    this.logger.info(
+      `Scheduled recurring message: ${id} for room ${roomId} (${recurrence}), next at ${new Date(scheduledTime).toISOString()}`
+    );
+    return scheduledMessage;
+  }
+
+  /**
+   * 대기 중인 예약 메시지 목록 조회 (발송 시각순)
+   * @param roomId - 지정하면 해당 방의 예약 메시지만 조회
+   */
+  listScheduledMessages(roomId?: string): ScheduledMessage[] {
+    return Array.from(this.scheduledMessages.values())
+      .filter(
+        (scheduledMessage) =>
+          !scheduledMessage.isProcessed &&
+          (roomId === undefined || scheduledMessage.roomId === roomId)
+      )
+      .sort((a, b) => a.scheduledTime - b.scheduledTime);
+  }
+
+  /**
+   * 예약 메시지 수정
+   * 반복 규칙이나 타임존이 바뀌면 다음 발송 시각을 다시 계산합니다.
+   */
+  updateScheduledMessage(
+    id: string,
+    changes: ScheduledMessageUpdate
+  ): ScheduledMessage | undefined {
+    const scheduledMessage = this.scheduledMessages.get(id);
+    if (!scheduledMessage || scheduledMessage.isProcessed) {
+      return undefined;
+    }
+
+    const updated: ScheduledMessage = { ...scheduledMessage };
+    if (changes.message !== undefined) updated.message = changes.message;
+    if (changes.metadata !== undefined) updated.metadata = changes.metadata;
+    if (changes.missedFirePolicy !== undefined) {
+      updated.missedFirePolicy = changes.missedFirePolicy;
+    }
+    if (changes.timezone !== undefined) updated.timezone = changes.timezone;
+    if (changes.endTime !== undefined) {
+      updated.endTime = changes.endTime ?? undefined;
+    }
+    if (changes.recurrence !== undefined) {
+      updated.recurrence = changes.recurrence ?? undefined;
+    }
+
+    if (changes.scheduledTime !== undefined) {
+      updated.scheduledTime = changes.scheduledTime;
+    } else if (
+      updated.recurrence &&
+      (changes.recurrence !== undefined || changes.timezone !== undefined)
+    ) {
+      const timezone = updated.timezone || this.timezone;
+      this.validateRecurrence(updated.recurrence, timezone);
+
+      const next = getNextOccurrence(updated.recurrence, Date.now(), timezone);
+      if (next === null) {
+        throw new ValidationError(
+          `Recurrence rule has no upcoming occurrence: ${updated.recurrence}`
+        );
+      }
+      updated.scheduledTime = next;
+    }
+
+    this.scheduledMessages.set(id, updated);
+    this.persistScheduledMessage(updated);
+    this.logger.info(
+      `Updated scheduled message: ${id}, next at ${new Date(updated.scheduledTime).toISOString()}`
+    );
+    return updated;
+  }
+
   /**
    * Bootstrap 핸들러 등록
    */
@@ -200,6 +424,85 @@ export class BatchScheduler {
     this.logger.info('Bootstrap completed');
   }
 
+  /**
+   * Shutdown 핸들러 등록
+   */
+  registerShutdownHandler(
+    handler: () => Promise<void>,
+    priority: number = 0
+  ): void {
+    this.shutdownHandlers.push({ handler, priority });
+    // 우선순위순으로 정렬 (낮은 숫자가 먼저 실행)
+    this.shutdownHandlers.sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * Shutdown 핸들러들 실행 (봇 종료 시)
+   */
+  async runShutdown(): Promise<void> {
+    if (this.shutdownHandlers.length === 0) {
+      return;
+    }
+
+    this.logger.info(
+      `Running ${this.shutdownHandlers.length} shutdown handlers...`
+    );
+
+    for (const { handler, priority } of this.shutdownHandlers) {
+      try {
+        this.logger.debug(
+          `Executing shutdown handler with priority ${priority}`
+        );
+        await handler();
+      } catch (error) {
+        this.logger.error('Shutdown handler error:', error);
+      }
+    }
+
+    this.logger.info('Shutdown handlers completed');
+  }
+
+  /**
+   * 저장소에서 예약 메시지와 스케줄 태스크 상태 복원
+   */
+  async restore(): Promise<void> {
+    const messageStorage = this.messageStorage();
+    let restoredMessages = 0;
+
+    let missedMessages = 0;
+    const now = Date.now();
+
+    for (const id of await messageStorage.keys()) {
+      if (this.scheduledMessages.has(id)) continue;
+
+      const scheduledMessage = await messageStorage.get<ScheduledMessage>(id);
+      if (scheduledMessage) {
+        this.scheduledMessages.set(id, scheduledMessage);
+        restoredMessages++;
+        if (
+          !scheduledMessage.isProcessed &&
+          now - scheduledMessage.scheduledTime > this.missedFireGraceMs
+        ) {
+          missedMessages++;
+        }
+      }
+    }
+
+    for (const task of this.scheduleTasks.values()) {
+      await this.restoreTaskState(task);
+    }
+
+    this.isRestored = true;
+    this.logger.info(
+      `Restored ${restoredMessages} scheduled messages from storage`
+    );
+    if (missedMessages > 0) {
+      this.logger.warn(
+        `${missedMessages} scheduled messages were missed while offline and will be handled by their missed-fire policy`
+      );
+    }
+  }
+
   /**
    * 스케줄러 시작
    */
@@ -269,6 +572,7 @@ export class BatchScheduler {
           this.logger.error(`Schedule task error for ${id}:`, error);
         }
         task.lastRun = now;
+        this.persistTaskState(task);
       }
     }
 
@@ -279,8 +583,7 @@ export class BatchScheduler {
       if (now >= scheduledMessage.scheduledTime) {
         try {
           this.logger.debug(`Processing scheduled message: ${id}`);
-          this.eventEmitter.emit('scheduled-message', scheduledMessage);
-          scheduledMessage.isProcessed = true;
+          this.fireScheduledMessage(scheduledMessage, now);
         } catch (error) {
           this.logger.error(`Scheduled message error for ${id}:`, error);
         }
@@ -292,10 +595,127 @@ export class BatchScheduler {
     for (const [id, scheduledMessage] of this.scheduledMessages) {
       if (
         scheduledMessage.isProcessed &&
-        scheduledMessage.scheduledTime < oneHourAgo
+        (scheduledMessage.lastFiredAt ?? scheduledMessage.scheduledTime) <
+          oneHourAgo
       ) {
         this.scheduledMessages.delete(id);
+        this.deleteScheduledMessage(id);
+      }
+    }
+  }
+
+  /**
+   * 발송 시각이 된 예약 메시지 처리 (놓친 발송 정책 적용 후 다음 반복 예약)
+   */
+  private fireScheduledMessage(
+    scheduledMessage: ScheduledMessage,
+    now: number
+  ): void {
+    const timezone = scheduledMessage.timezone || this.timezone;
+    const missed =
+      now - scheduledMessage.scheduledTime > this.missedFireGraceMs;
+
+    let fireTimes = [scheduledMessage.scheduledTime];
+    if (missed) {
+      const policy = scheduledMessage.missedFirePolicy || this.missedFirePolicy;
+
+      // 놓친 발송 시각은 정책에 필요한 만큼만 계산 (오래 꺼져 있었어도 전체를 훑지 않음)
+      if (policy === 'skip') {
+        fireTimes = [];
+      } else if (scheduledMessage.recurrence) {
+        fireTimes = this.getRecentDueTimes(
+          scheduledMessage,
+          now,
+          timezone,
+          policy === 'once' ? 1 : MAX_LATE_FIRES
+        );
+      }
+
+      this.logger.warn(
+        `Scheduled message ${scheduledMessage.id} missed fire(s) since ${new Date(scheduledMessage.scheduledTime).toISOString()}, policy: ${policy}, sending ${fireTimes.length}`
+      );
+    }
+
+    for (const fireTime of fireTimes) {
+      this.eventEmitter.emit('scheduled-message', {
+        ...scheduledMessage,
+        scheduledTime: fireTime,
+        missed,
+      });
+    }
+
+    if (fireTimes.length > 0) {
+      scheduledMessage.lastFiredAt = now;
+      scheduledMessage.fireCount =
+        (scheduledMessage.fireCount || 0) + fireTimes.length;
+    }
+
+    // 다음 반복 예약
+    const next = scheduledMessage.recurrence
+      ? getNextOccurrence(
+          scheduledMessage.recurrence,
+          Math.max(now, scheduledMessage.scheduledTime),
+          timezone
+        )
+      : null;
+
+    if (
+      next !== null &&
+      (!scheduledMessage.endTime || next <= scheduledMessage.endTime)
+    ) {
+      scheduledMessage.scheduledTime = next;
+    } else {
+      scheduledMessage.isProcessed = true;
+    }
+
+    this.persistScheduledMessage(scheduledMessage);
+  }
+
+  /**
+   * 놓친 반복 발송 시각 중 가장 최근 limit개 (오래된 순)
+   * 현재 시각에서 거슬러 올라간 구간만 탐색하고, 부족하면 구간을 두 배로 늘림
+   */
+  private getRecentDueTimes(
+    scheduledMessage: ScheduledMessage,
+    now: number,
+    timezone: string | undefined,
+    limit: number
+  ): number[] {
+    const rule = scheduledMessage.recurrence!;
+    const first = scheduledMessage.scheduledTime;
+    const end = scheduledMessage.endTime
+      ? Math.min(now, scheduledMessage.endTime)
+      : now;
+
+    const second = getNextOccurrence(rule, first, timezone);
+    if (second === null || second > end) {
+      return [first];
+    }
+
+    let span = (second - first) * limit;
+    for (;;) {
+      const from = Math.max(first, end - span);
+      const times = from === first ? [first] : [];
+      let next = getNextOccurrence(rule, from, timezone);
+      while (next !== null && next <= end) {
+        times.push(next);
+        if (times.length > limit) {
+          times.shift();
+        }
+        next = getNextOccurrence(rule, next, timezone);
       }
+
+      if (times.length >= limit || from === first) {
+        return times;
+      }
+      span *= 2;
+    }
+  }
+
+  private validateRecurrence(recurrence: string, timezone?: string): void {
+    parseRecurrence(recurrence);
+    if (timezone && !isValidTimeZone(timezone)) {
+      throw new ValidationError(`Invalid time zone: ${timezone}`);
     }
   }
 
@@ -309,6 +729,7 @@ export class BatchScheduler {
       if (task.cronJob) {
         task.cronJob.stop();
       }
+      this.persistTaskState(task);
       this.logger.info(`Disabled schedule task: ${id}`);
     }
   }
@@ -323,6 +744,7 @@ export class BatchScheduler {
       if (task.cronJob && this.isRunning) {
         task.cronJob.start();
       }
+      this.persistTaskState(task);
       this.logger.info(`Enabled schedule task: ${id}`);
     }
   }
@@ -334,6 +756,13 @@ export class BatchScheduler {
     this.eventEmitter.on('scheduled-message', listener);
   }
 
+  /**
+   * 예약 메시지 이벤트 리스너 제거
+   */
+  offScheduledMessage(listener: (message: ScheduledMessage) => void): void {
+    this.eventEmitter.off('scheduled-message', listener);
+  }
+
   /**
    * 스케줄 태스크 상태 조회
    */
@@ -364,9 +793,35 @@ export class BatchScheduler {
 
   /**
    * 예약 메시지 취소
+   * @param roomId - 지정하면 해당 방의 예약 메시지인 경우에만 취소
+   */
+  cancelScheduledMessage(id: string, roomId?: string): boolean {
+    const scheduledMessage = this.scheduledMessages.get(id);
+    if (
+      !scheduledMessage ||
+      (roomId !== undefined && scheduledMessage.roomId !== roomId)
+    ) {
+      return false;
+    }
+
+    this.scheduledMessages.delete(id);
+    this.deleteScheduledMessage(id);
+    this.logger.info(`Cancelled scheduled message: ${id}`);
+    return true;
+  }
+
+  /**
+   * 방의 모든 예약 메시지 취소
+   * @returns 취소된 예약 메시지 수
    */
-  cancelScheduledMessage(id: string): boolean {
-    return this.scheduledMessages.delete(id);
+  cancelRoomScheduledMessages(roomId: string): number {
+    let cancelled = 0;
+    for (const scheduledMessage of this.listScheduledMessages(roomId)) {
+      if (this.cancelScheduledMessage(scheduledMessage.id, roomId)) {
+        cancelled++;
+      }
+    }
+    return cancelled;
   }
 
   /**
@@ -375,8 +830,62 @@ export class BatchScheduler {
   removeScheduleTask(id: string): boolean {
     const removed = this.scheduleTasks.delete(id);
     if (removed) {
+      this.taskStorage()
+        .delete(id)
+        .catch((error) => {
+          this.logger.error(`Failed to delete schedule task ${id}:`, error);
+        });
       this.logger.info(`Removed schedule task: ${id}`);
     }
     return removed;
   }
+
+  private messageStorage() {
+    return getScopedStorage(`${this.namespace}:messages`, this.resolveStorage);
+  }
+
+  private taskStorage() {
+    return getScopedStorage(`${this.namespace}:tasks`, this.resolveStorage);
+  }
+
+  private persistScheduledMessage(scheduledMessage: ScheduledMessage): void {
+    this.messageStorage()
+      .set(scheduledMessage.id, scheduledMessage)
+      .catch((error) => {
+        this.logger.error(
+          `Failed to persist scheduled message ${scheduledMessage.id}:`,
+          error
+        );
+      });
+  }
+
+  private deleteScheduledMessage(id: string): void {
+    this.messageStorage()
+      .delete(id)
+      .catch((error) => {
+        this.logger.error(`Failed to delete scheduled message ${id}:`, error);
+      });
+  }
+
+  private persistTaskState(task: ScheduleTask): void {
+    const state: PersistedTaskState = {
+      lastRun: task.lastRun,
+      isActive: task.isActive,
+    };
+    this.taskStorage()
+      .set(task.id, state)
+      .catch((error) => {
+        this.logger.error(`Failed to persist schedule task ${task.id}:`, error);
+      });
+  }
+
+  private async restoreTaskState(task: ScheduleTask): Promise<void> {
+    const state = await this.taskStorage().get<PersistedTaskState>(task.id);
+    if (!state) return;
+
+    task.lastRun = state.lastRun;
+    if (!state.isActive && task.isActive) {
+      this.disableScheduleTask(task.id);
+    }
+  }
 }
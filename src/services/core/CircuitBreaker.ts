@@ -0,0 +1,278 @@
+/**
+ * Circuit breaker for the Iris API: fail fast while Iris is down and buffer work until it recovers
+ */
+
+import { IrisCircuitOpenError } from '@/types';
+import { Logger } from '@/utils/logger';
+
+/**
+ * - closed: 정상, 모든 요청 전송
+ * - open: 연속 실패로 차단, 요청을 보내지 않고 바로 실패
+ * - half_open: 복구 확인 요청(probe) 전송 중
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  enabled?: boolean; // 기본: true
+  failureThreshold?: number; // 연속 실패 횟수가 이만큼이면 차단 (기본: 5)
+  probeIntervalMs?: number; // 차단 중 복구 확인 주기 (기본: 10000)
+  maxBuffered?: number; // 차단 중 보관할 최대 답장 수, 초과하면 바로 실패 (기본: 100)
+  bufferTtlMs?: number; // 보관한 답장의 유효 시간, 지나면 보내지 않음 (기본: 5분)
+}
+
+export interface CircuitOpenEvent {
+  failures: number; // 연속 실패 횟수
+  error?: Error; // 마지막 실패 원인
+  probeInMs: number; // 다음 복구 확인까지 남은 시간
+}
+
+export interface CircuitHalfOpenEvent {
+  openedAt: number;
+}
+
+export interface CircuitClosedEvent {
+  downtimeMs: number; // 차단되어 있던 시간
+  flushed: number; // 복구 후 보낼 보관 답장 수
+  expired: number; // 차단된 동안 유효 시간이 지나 버린 보관 답장 수
+}
+
+export interface CircuitEventMap {
+  circuit_open: CircuitOpenEvent;
+  circuit_half_open: CircuitHalfOpenEvent;
+  circuit_closed: CircuitClosedEvent;
+}
+
+export type CircuitEventHandler = <K extends keyof CircuitEventMap>(
+  event: K,
+  data: CircuitEventMap[K]
+) => void;
+
+export interface CircuitStats {
+  state: CircuitState;
+  failures: number;
+  buffered: number;
+  openedAt?: number;
+}
+
+interface BufferedTask {
+  run: () => void;
+  reject: (error: Error) => void;
+  expiresAt: number;
+}
+
+export class CircuitBreaker {
+  private logger: Logger = new Logger('CircuitBreaker');
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private expired = 0; // 차단된 동안 유효 시간이 지나 버린 답장 수
+  private probeTimer?: NodeJS.Timeout;
+  private buffer: BufferedTask[] = [];
+  private eventHandler?: CircuitEventHandler;
+  private enabled: boolean;
+  private failureThreshold: number;
+  private probeIntervalMs: number;
+  private maxBuffered: number;
+  private bufferTtlMs: number;
+
+  /**
+   * @param probe - 복구 확인 요청 (성공하면 복구된 것으로 판단)
+   */
+  constructor(
+    private probe: () => Promise<unknown>,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.enabled = options.enabled ?? true;
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+    this.probeIntervalMs = options.probeIntervalMs ?? 10000;
+    this.maxBuffered = options.maxBuffered ?? 100;
+    this.bufferTtlMs = options.bufferTtlMs ?? 5 * 60 * 1000;
+  }
+
+  setEventHandler(handler: CircuitEventHandler): void {
+    this.eventHandler = handler;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getStats(): CircuitStats {
+    return {
+      state: this.state,
+      failures: this.failures,
+      buffered: this.buffer.length,
+      openedAt: this.openedAt,
+    };
+  }
+
+  /**
+   * Throw if requests must not be sent right now
+   */
+  check(endpoint: string): void {
+    if (this.state !== 'closed') {
+      throw new IrisCircuitOpenError(endpoint);
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+  }
+
+  recordFailure(error?: Error): void {
+    if (!this.enabled || this.state !== 'closed') {
+      return;
+    }
+    this.failures++;
+    if (this.failures >= this.failureThreshold) {
+      this.open(error);
+    }
+  }
+
+  /**
+   * Run a task now, or keep it until the circuit closes again
+   * 보관한 작업은 들어온 순서대로 실행
+   */
+  run<T>(endpoint: string, task: () => Promise<T>): Promise<T> {
+    if (this.state === 'closed') {
+      return task();
+    }
+    if (this.buffer.length >= this.maxBuffered) {
+      return Promise.reject(
+        new IrisCircuitOpenError(
+          endpoint,
+          'Iris is unavailable and the buffer is full'
+        )
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.buffer.push({
+        run: () => {
+          task().then(resolve, reject);
+        },
+        reject,
+        expiresAt: Date.now() + this.bufferTtlMs,
+      });
+    });
+  }
+
+  /**
+   * Stop probing and fail every buffered task
+   */
+  reset(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+    const dropped = this.buffer.splice(0);
+    dropped.forEach((task) =>
+      task.reject(new IrisCircuitOpenError('/reply', 'Iris API was closed'))
+    );
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  private open(error?: Error): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.expired = 0;
+    this.logger.warn(
+      `Iris failed ${this.failures} times in a row, pausing requests (next check in ${this.probeIntervalMs}ms)`,
+      { error: error?.message }
+    );
+    this.emit('circuit_open', {
+      failures: this.failures,
+      error,
+      probeInMs: this.probeIntervalMs,
+    });
+    this.scheduleProbe();
+  }
+
+  private scheduleProbe(): void {
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = undefined;
+      void this.runProbe();
+    }, this.probeIntervalMs);
+    // 프로세스 종료를 막지 않도록
+    this.probeTimer.unref?.();
+  }
+
+  private async runProbe(): Promise<void> {
+    this.state = 'half_open';
+    this.emit('circuit_half_open', { openedAt: this.openedAt! });
+
+    try {
+      await this.probe();
+    } catch (error) {
+      if (this.state !== 'half_open') {
+        return; // reset() 호출됨
+      }
+      this.state = 'open';
+      this.dropExpired();
+      this.logger.debug('Iris is still unavailable', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.scheduleProbe();
+      return;
+    }
+
+    if (this.state === 'half_open') {
+      this.close();
+    }
+  }
+
+  private close(): void {
+    this.dropExpired();
+    const buffered = this.buffer.splice(0);
+    const downtimeMs = Date.now() - (this.openedAt ?? Date.now());
+
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.logger.info(
+      `Iris recovered after ${downtimeMs}ms, sending ${buffered.length} buffered replies`
+    );
+    this.emit('circuit_closed', {
+      downtimeMs,
+      flushed: buffered.length,
+      expired: this.expired,
+    });
+
+    buffered.forEach((task) => task.run());
+  }
+
+  /**
+   * Fail buffered tasks that are past their expiry
+   */
+  private dropExpired(): void {
+    const now = Date.now();
+    const expired = this.buffer.filter((task) => task.expiresAt <= now);
+    if (expired.length === 0) {
+      return;
+    }
+
+    this.buffer = this.buffer.filter((task) => task.expiresAt > now);
+    this.expired += expired.length;
+    expired.forEach((task) =>
+      task.reject(
+        new IrisCircuitOpenError('/reply', 'Iris did not recover in time')
+      )
+    );
+    this.logger.warn(
+      `Dropped ${expired.length} buffered replies that expired while Iris was unavailable`
+    );
+  }
+
+  private emit<K extends keyof CircuitEventMap>(
+    event: K,
+    data: CircuitEventMap[K]
+  ): void {
+    try {
+      this.eventHandler?.(event, data);
+    } catch (error) {
+      this.logger.error(`Circuit ${event} handler failed:`, error);
+    }
+  }
+}
@@ -2,9 +2,41 @@
  * TypeScript port of iris.bot._internal.iris
  */
 
-import { IIrisAPI } from '@/types';
+import {
+  IIrisAPI,
+  IrisApiError,
+  IrisCircuitOpenError,
+  IrisDecodeError,
+  IrisNetworkError,
+  IrisResponseError,
+  IrisTimeoutError,
+  isRetryableError,
+} from '@/types';
+import {
+  IrisAotResponse,
+  IrisConfigResponse,
+  IrisDecryptResponse,
+  IrisQueryResponse,
+  IrisReplyResponse,
+} from '@/types/models/api';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitEventHandler,
+  CircuitStats,
+} from '@/services/core/CircuitBreaker';
+import { sleep } from '@/utils';
+import { InFlightTracker } from '@/utils/in-flight';
+import { splitMessage } from '@/utils/message-format';
 import { Logger } from '@/utils/logger';
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import {
+  DeadLetter,
+  OutboundDispatcher,
+  OutboundOptions,
+  OutboundStats,
+  previewMessage,
+} from './OutboundDispatcher';
 
 export interface IrisRequest {
   raw: Record<string, any>;
@@ -12,61 +44,351 @@ export interface IrisRequest {
   sender: string;
 }
 
+export type IrisCallType = 'reply' | 'query' | 'config' | 'aot' | 'decrypt';
+
+export interface IrisCallPolicy {
+  timeoutMs?: number; // 기본: 30000
+  retries?: number; // 실패 시 재시도 횟수 (기본: reply 0, 그 외 2)
+  retryDelayMs?: number; // 첫 재시도 대기 시간, 이후 2배씩 증가 (기본: 500)
+  maxRetryDelayMs?: number; // 기본: 5000
+  retryTimeouts?: boolean; // 시간 초과도 재시도, 이미 처리된 요청이 중복될 수 있음 (기본: reply false, 그 외 true)
+}
+
+export interface IrisApiRequest {
+  type: IrisCallType;
+  method: 'get' | 'post';
+  path: string;
+  data?: any;
+  headers: Record<string, string>;
+  timeoutMs: number;
+}
+
+export interface IrisApiResponseInfo {
+  request: IrisApiRequest;
+  status: number;
+  durationMs: number;
+}
+
+/**
+ * 요청을 변경하려면 새 요청을 반환하거나 전달받은 요청을 직접 수정
+ */
+export type IrisRequestInterceptor = (
+  request: IrisApiRequest
+) => IrisApiRequest | void | Promise<IrisApiRequest | void>;
+
+/**
+ * 응답 본문을 바꾸려면 새 값을 반환 (undefined를 반환하면 그대로 사용)
+ */
+export type IrisResponseInterceptor = (
+  body: any,
+  info: IrisApiResponseInfo
+) => any | Promise<any>;
+
+export interface IrisApiOptions {
+  timeoutMs?: number; // 모든 호출의 기본 시간 제한 (기본: 30000)
+  policies?: Partial<Record<IrisCallType, IrisCallPolicy>>; // 호출 종류별 시간 제한, 재시도
+  requestInterceptors?: IrisRequestInterceptor[];
+  responseInterceptors?: IrisResponseInterceptor[];
+  outbound?: OutboundOptions; // 보내는 메시지의 전송 속도 제한, 재시도
+  circuitBreaker?: CircuitBreakerOptions; // Iris 장애 시 요청 차단, 답장 보관
+}
+
+// 답장은 OutboundDispatcher가 재시도하므로 API 호출 단계에서는 재시도하지 않음
+const DEFAULT_RETRIES: Record<IrisCallType, number> = {
+  reply: 0,
+  query: 2,
+  config: 2,
+  aot: 2,
+  decrypt: 2,
+};
+
 export class IrisAPI implements IIrisAPI {
   private httpClient: AxiosInstance;
   private irisEndpoint: string;
   private logger: Logger = new Logger('IrisAPI');
+  // 종료 시 전송 중인 답장을 기다리기 위해 추적
+  private pendingReplies = new InFlightTracker();
 
-  constructor(irisEndpoint: string) {
+  private outbound: OutboundDispatcher;
+  private maxMessageLength: number;
+  private policies: Record<IrisCallType, Required<IrisCallPolicy>>;
+  private requestInterceptors: IrisRequestInterceptor[];
+  private responseInterceptors: IrisResponseInterceptor[];
+  private breaker: CircuitBreaker;
+
+  constructor(irisEndpoint: string, options: IrisApiOptions = {}) {
     this.irisEndpoint = irisEndpoint;
+    this.outbound = new OutboundDispatcher(options.outbound);
+    this.maxMessageLength = options.outbound?.maxMessageLength ?? 4000;
+    this.requestInterceptors = [...(options.requestInterceptors || [])];
+    this.responseInterceptors = [...(options.responseInterceptors || [])];
+
+    const policies = {} as Record<IrisCallType, Required<IrisCallPolicy>>;
+    for (const type of Object.keys(DEFAULT_RETRIES) as IrisCallType[]) {
+      const policy = options.policies?.[type] || {};
+      policies[type] = {
+        timeoutMs: policy.timeoutMs ?? options.timeoutMs ?? 30000,
+        retries: policy.retries ?? DEFAULT_RETRIES[type],
+        retryDelayMs: policy.retryDelayMs ?? 500,
+        maxRetryDelayMs: policy.maxRetryDelayMs ?? 5000,
+        // 시간 초과된 답장은 이미 전송되었을 수 있으므로 기본적으로 재시도하지 않음
+        retryTimeouts: policy.retryTimeouts ?? type !== 'reply',
+      };
+    }
+    this.policies = policies;
+
+    // 차단 중에는 /config 요청으로 복구 여부 확인
+    this.breaker = new CircuitBreaker(
+      () => this.call('config', 'get', '/config', undefined, true),
+      options.circuitBreaker
+    );
+
     this.httpClient = axios.create({
       baseURL: irisEndpoint,
-      timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
       },
     });
   }
 
-  private parse(response: AxiosResponse): any {
-    try {
-      const data = response.data;
+  /**
+   * Add a function that can change every request before it is sent (headers, body, timeout)
+   * @returns 인터셉터를 제거하는 함수
+   */
+  addRequestInterceptor(interceptor: IrisRequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(
+        (registered) => registered !== interceptor
+      );
+    };
+  }
+
+  /**
+   * Add a function that can inspect or replace every response body
+   * @returns 인터셉터를 제거하는 함수
+   */
+  addResponseInterceptor(interceptor: IrisResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(
+        (registered) => registered !== interceptor
+      );
+    };
+  }
 
-      if (response.status < 200 || response.status >= 300) {
-        this.logger.error(`Iris error: ${response.status}`);
-        throw new Error(`Iris error: ${data?.message || 'Unknown error'}`);
+  /**
+   * Receive circuit breaker state changes (circuit_open, circuit_half_open, circuit_closed)
+   */
+  setCircuitEventHandler(handler: CircuitEventHandler): void {
+    this.breaker.setEventHandler(handler);
+  }
+
+  /**
+   * Get the circuit breaker state and the number of buffered replies
+   */
+  getCircuitStats(): CircuitStats {
+    return this.breaker.getStats();
+  }
+
+  /**
+   * Stop recovery checks and fail replies buffered while Iris was unavailable
+   */
+  close(): void {
+    this.breaker.reset();
+  }
+
+  /**
+   * Send a request with the timeout and retry policy of its call type
+   * @param probe - 차단 중 복구 확인 요청 (차단 상태를 무시하고 재시도하지 않음)
+   */
+  private async call<T>(
+    type: IrisCallType,
+    method: 'get' | 'post',
+    path: string,
+    data?: any,
+    probe = false
+  ): Promise<T> {
+    if (!probe) {
+      this.breaker.check(path);
+    }
+
+    const policy = this.policies[type];
+    const retries = probe ? 0 : policy.retries;
+    let request: IrisApiRequest = {
+      type,
+      method,
+      path,
+      data: data === undefined ? undefined : this.sanitizeForJSON(data),
+      headers: {},
+      timeoutMs: policy.timeoutMs,
+    };
+    for (const interceptor of this.requestInterceptors) {
+      request = (await interceptor(request)) || request;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      let response: AxiosResponse;
+      try {
+        response = await this.httpClient.request({
+          method: request.method,
+          url: request.path,
+          data: request.data,
+          headers: request.headers,
+          timeout: request.timeoutMs,
+        });
+      } catch (error) {
+        const apiError = toApiError(error, request, attempt);
+        if (
+          attempt > retries ||
+          !isRetryableError(apiError, policy.retryTimeouts)
+        ) {
+          if (!probe) {
+            this.recordResult(apiError);
+          }
+          throw apiError;
+        }
+
+        const delayMs = Math.min(
+          policy.retryDelayMs * Math.pow(2, attempt - 1),
+          policy.maxRetryDelayMs
+        );
+        this.logger.warn(
+          `${apiError.message}, retrying in ${delayMs}ms (${attempt}/${retries})`
+        );
+        await sleep(delayMs);
+        continue;
       }
 
-      return data;
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('Iris error')) {
-        throw error;
+      // JSON이 아닌 응답은 axios가 문자열로 반환
+      let body = response.data;
+      if (typeof body !== 'object' || body === null) {
+        throw new IrisDecodeError(path, 'expected a JSON object', {
+          body: String(body).slice(0, 200),
+        });
       }
-      throw new Error(`Iris response JSON parsing error: ${response.data}`);
+
+      for (const interceptor of this.responseInterceptors) {
+        const replaced = await interceptor(body, {
+          request,
+          status: response.status,
+          durationMs: Date.now() - startedAt,
+        });
+        if (replaced !== undefined) {
+          body = replaced;
+        }
+      }
+      if (!probe) {
+        this.breaker.recordSuccess();
+      }
+      return body as T;
     }
   }
 
-  async reply(roomId: string | number, message: string): Promise<any> {
-    try {
-      const requestData = {
-        type: 'text',
-        room: String(roomId),
-        data: String(message),
-      };
+  /**
+   * Count failures that mean Iris is down (4xx responses mean it is up)
+   */
+  private recordResult(error: IrisApiError): void {
+    if (
+      error instanceof IrisNetworkError ||
+      error instanceof IrisTimeoutError ||
+      (error instanceof IrisResponseError && error.status >= 500)
+    ) {
+      this.breaker.recordFailure(error);
+    } else {
+      this.breaker.recordSuccess();
+    }
+  }
 
-      const response = await this.httpClient.post(
-        '/reply',
-        this.sanitizeForJSON(requestData)
-      );
+  /**
+   * Log a failed call (차단 중 바로 실패한 호출은 로그를 남기지 않음)
+   */
+  private logFailure(message: string, error: unknown): void {
+    if (error instanceof IrisCircuitOpenError) {
+      this.logger.debug(message, error.message);
+      return;
+    }
+    this.logger.error(message, error);
+  }
+
+  /**
+   * Number of replies being sent
+   */
+  getPendingReplyCount(): number {
+    return this.pendingReplies.size;
+  }
+
+  /**
+   * Wait until all replies being sent have finished
+   */
+  waitForPendingReplies(): Promise<void> {
+    return this.pendingReplies.onIdle();
+  }
+
+  /**
+   * Get outgoing message queue statistics
+   */
+  getOutboundStats(): OutboundStats {
+    return this.outbound.getStats();
+  }
 
-      return this.parse(response);
+  /**
+   * Get the most recent messages that could not be sent
+   */
+  getDeadLetters(): DeadLetter[] {
+    return this.outbound.getDeadLetters();
+  }
+
+  /**
+   * Send a reply through the outgoing message queue (rate limit, order per room, retry)
+   */
+  private sendReply(
+    roomId: string | number,
+    preview: string,
+    requestData: Record<string, any>
+  ): Promise<IrisReplyResponse> {
+    return this.pendingReplies.track(() =>
+      this.outbound.send(String(roomId), preview, () =>
+        // 전송 시점에 Iris 장애 중이면 복구될 때까지 보관 (재시도 중 차단된 경우 포함)
+        this.breaker.run('/reply', () =>
+          this.call<IrisReplyResponse>('reply', 'post', '/reply', requestData)
+        )
+      )
+    );
+  }
+
+  /**
+   * Send a text message (long messages are split into numbered parts)
+   */
+  async reply(
+    roomId: string | number,
+    message: string
+  ): Promise<IrisReplyResponse> {
+    try {
+      const parts = splitMessage(String(message), this.maxMessageLength);
+
+      // 모든 부분을 한 번에 대기열에 넣어 다른 메시지가 사이에 끼지 않도록 함
+      const results = await Promise.all(
+        parts.map((part) =>
+          this.sendReply(roomId, previewMessage(part), {
+            type: 'text',
+            room: String(roomId),
+            data: part,
+          })
+        )
+      );
+      return results[results.length - 1];
     } catch (error) {
-      this.logger.error('Reply failed:', error);
+      this.logFailure('Reply failed:', error);
       throw error;
     }
   }
 
-  async replyMedia(roomId: string | number, files: Buffer[]): Promise<any> {
+  async replyMedia(
+    roomId: string | number,
+    files: Buffer[]
+  ): Promise<IrisReplyResponse | undefined> {
     try {
       // Convert buffers to base64 for transmission
       const data = files.map((buffer) => buffer.toString('base64'));
@@ -84,14 +406,13 @@ export class IrisAPI implements IIrisAPI {
         data: data.length === 1 ? data[0] : data,
       };
 
-      const response = await this.httpClient.post(
-        '/reply',
-        this.sanitizeForJSON(requestData)
+      return await this.sendReply(
+        roomId,
+        `[image x${data.length}]`,
+        requestData
       );
-
-      return this.parse(response);
     } catch (error) {
-      this.logger.error('Reply media failed:', error);
+      this.logFailure('Reply media failed:', error);
       throw error;
     }
   }
@@ -100,12 +421,11 @@ export class IrisAPI implements IIrisAPI {
    * Reply with images from URLs - automatically downloads and converts to base64
    * @param roomId - Room ID to send message to
    * @param imageUrls - Array of image URLs to download and send
-   * @returns Promise<any>
    */
   async replyImageUrls(
     roomId: string | number,
     imageUrls: string[]
-  ): Promise<any> {
+  ): Promise<IrisReplyResponse | undefined> {
     try {
       if (imageUrls.length === 0) {
         this.logger.error('No image URLs provided');
@@ -157,17 +477,18 @@ export class IrisAPI implements IIrisAPI {
         data: data.length === 1 ? data[0] : data,
       };
 
-      const response = await this.httpClient.post(
-        '/reply',
-        this.sanitizeForJSON(requestData)
+      const result = await this.sendReply(
+        roomId,
+        `[image x${data.length}]`,
+        requestData
       );
 
       this.logger.debug(
         `Successfully sent ${data.length} images to room ${roomId}`
       );
-      return this.parse(response);
+      return result;
     } catch (error) {
-      this.logger.error('Reply image URLs failed:', error);
+      this.logFailure('Reply image URLs failed:', error);
       throw error;
     }
   }
@@ -176,9 +497,11 @@ export class IrisAPI implements IIrisAPI {
    * Reply with a single image from URL
    * @param roomId - Room ID to send message to
    * @param imageUrl - Image URL to download and send
-   * @returns Promise<any>
    */
-  async replyImageUrl(roomId: string | number, imageUrl: string): Promise<any> {
+  async replyImageUrl(
+    roomId: string | number,
+    imageUrl: string
+  ): Promise<IrisReplyResponse | undefined> {
     return this.replyImageUrls(roomId, [imageUrl]);
   }
 
@@ -194,15 +517,19 @@ export class IrisAPI implements IIrisAPI {
         user_id: String(userId), // userId도 문자열로 변환
       };
 
-      const response = await this.httpClient.post(
+      const result = await this.call<IrisDecryptResponse>(
+        'decrypt',
+        'post',
         '/decrypt',
-        this.sanitizeForJSON(requestData)
+        requestData
       );
-
-      const result = this.parse(response);
-      return result?.plain_text || null;
+      return result.plain_text || null;
     } catch (error) {
-      this.logger.error('Decrypt failed:', error);
+      // 호출한 쪽(Decryptor)이 실패를 집계하고 대체 처리하므로 여기서는 debug로만 남김
+      this.logger.debug(
+        'Decrypt failed:',
+        error instanceof Error ? error.message : error
+      );
       throw error;
     }
   }
@@ -230,41 +557,90 @@ export class IrisAPI implements IIrisAPI {
     return value;
   }
 
-  async query(query: string, bind: any[] = []): Promise<any[]> {
+  async query<T = Record<string, any>>(
+    query: string,
+    bind: any[] = []
+  ): Promise<T[]> {
     try {
-      // BigInt 값을 문자열로 변환하여 직렬화 문제 해결
-      const sanitizedBind = this.sanitizeForJSON(bind);
-
-      const response = await this.httpClient.post('/query', {
-        query,
-        bind: sanitizedBind,
-      });
-
-      const result = this.parse(response);
-      return result?.data || [];
+      // BigInt 값은 call()에서 문자열로 변환
+      const result = await this.call<IrisQueryResponse<T>>(
+        'query',
+        'post',
+        '/query',
+        { query, bind }
+      );
+      if (result.data !== undefined && !Array.isArray(result.data)) {
+        throw new IrisDecodeError('/query', 'data is not an array');
+      }
+      return result.data || [];
     } catch (error) {
-      this.logger.error('Query failed:', error);
+      this.logFailure('Query failed:', error);
       throw error;
     }
   }
 
-  async getInfo(): Promise<any> {
+  async getInfo(): Promise<IrisConfigResponse> {
     try {
-      const response = await this.httpClient.get('/config');
-      return this.parse(response);
+      const info = await this.call<IrisConfigResponse>(
+        'config',
+        'get',
+        '/config'
+      );
+      if (info.bot_id === undefined || info.bot_id === null) {
+        throw new IrisDecodeError('/config', 'bot_id is missing');
+      }
+      return info;
     } catch (error) {
-      this.logger.error('Get info failed:', error);
+      this.logFailure('Get info failed:', error);
       throw error;
     }
   }
 
-  async getAot(): Promise<any> {
+  async getAot(): Promise<IrisAotResponse> {
     try {
-      const response = await this.httpClient.get('/aot');
-      return this.parse(response);
+      const aot = await this.call<IrisAotResponse>('aot', 'get', '/aot');
+      if (!aot.aot || typeof aot.aot.access_token !== 'string') {
+        throw new IrisDecodeError('/aot', 'aot.access_token is missing');
+      }
+      return aot;
     } catch (error) {
-      this.logger.error('Get AOT failed:', error);
+      this.logFailure('Get AOT failed:', error);
       throw error;
     }
   }
 }
+
+/**
+ * Convert an axios error into an IrisApiError
+ */
+function toApiError(
+  error: unknown,
+  request: IrisApiRequest,
+  attempts: number
+): IrisApiError {
+  if (error instanceof IrisApiError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new IrisNetworkError(request.path, attempts, {
+      cause: error instanceof Error ? error.message : String(error),
+    });
+  }
+  if (error.response) {
+    const data = error.response.data as any;
+    return new IrisResponseError(
+      request.path,
+      attempts,
+      error.response.status,
+      data?.message || error.message,
+      data
+    );
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new IrisTimeoutError(request.path, attempts, request.timeoutMs);
+  }
+  return new IrisNetworkError(request.path, attempts, {
+    code: error.code,
+    cause: error.message,
+  });
+}
@@ -3,6 +3,7 @@
  * https://github.com/ye-seola/kakaolink-py
  */
 
+import { getScopedStorage } from '@/services/storage';
 import { Logger } from '@/utils/logger';
 import got, { Got } from 'got';
 import { CookieJar } from 'tough-cookie';
@@ -49,20 +50,28 @@ export class KakaoLinkSendException extends KakaoLinkException {
   }
 }
 
-// Python's KakaoLinkCookieStorage equivalent
+// Python's KakaoLinkCookieStorage equivalent, persisted through the bot storage adapter
 class KakaoLinkCookieStorage {
-  private localStorage: Record<string, string> = {};
+  private storageKey: string;
+
+  constructor(irisUrl: string) {
+    this.storageKey = `cookies:${irisUrl}`;
+  }
 
   async save(cookies: Record<string, string>): Promise<void> {
-    this.localStorage = cookies;
+    await getScopedStorage('kakaolink').set(this.storageKey, cookies);
   }
 
   async load(): Promise<Record<string, string>> {
-    return this.localStorage;
+    return (
+      (await getScopedStorage('kakaolink').get<Record<string, string>>(
+        this.storageKey
+      )) || {}
+    );
   }
 
-  clear(): void {
-    this.localStorage = {};
+  async clear(): Promise<void> {
+    await getScopedStorage('kakaolink').delete(this.storageKey);
   }
 }
 
@@ -96,7 +105,7 @@ export class KakaoLink {
     this.defaultAppKey = defaultAppKey;
     this.defaultOrigin = defaultOrigin;
     this._authorizationProvider = new KakaoLinkAuthorizationProvider(irisUrl);
-    this._cookieStorage = new KakaoLinkCookieStorage();
+    this._cookieStorage = new KakaoLinkCookieStorage(irisUrl);
   }
 
   // Identical to Python's send method
@@ -405,7 +414,7 @@ export class KakaoLink {
   private async _login(client: Got): Promise<void> {
     const authorization = await this._authorizationProvider.getAuthorization();
     this._cookies = {};
-    this._cookieStorage.clear();
+    await this._cookieStorage.clear();
     // client.cookies.clear(); // got's cookieJar is automatically managed
 
     const authorized = await this._checkAuthorized(client);
@@ -0,0 +1,229 @@
+/**
+ * Outgoing message queue: send rate limits, ordered delivery per room and retries
+ */
+
+import { isRetryableError } from '@/types';
+import { sleep } from '@/utils';
+import { ConcurrencyLimiter } from '@/utils/concurrency-limiter';
+import { Logger } from '@/utils/logger';
+
+export interface SendRate {
+  limit: number; // intervalMs 동안 보낼 수 있는 최대 메시지 수
+  intervalMs: number;
+}
+
+export interface OutboundRetryOptions {
+  attempts?: number; // 최대 전송 시도 횟수 (기본: 3)
+  initialDelayMs?: number; // 첫 재시도 대기 시간, 이후 2배씩 증가 (기본: 500)
+  maxDelayMs?: number; // 최대 재시도 대기 시간 (기본: 10000)
+  retryTimeouts?: boolean; // 시간 초과된 전송도 재시도, 이미 전송된 메시지가 중복될 수 있음 (기본: false)
+}
+
+export interface OutboundOptions {
+  globalRate?: SendRate; // 전체 전송 속도 제한 (기본: 제한 없음)
+  roomRate?: SendRate; // 방별 전송 속도 제한 (기본: 제한 없음)
+  retry?: OutboundRetryOptions;
+  maxMessageLength?: number; // 이보다 긴 텍스트 메시지는 번호를 붙여 나누어 전송 (기본: 4000, 0이면 나누지 않음)
+  maxDeadLetters?: number; // 보관할 전송 실패 메시지 수 (기본: 100)
+  onDeadLetter?: (letter: DeadLetter) => void;
+}
+
+/**
+ * A message that could not be sent after all attempts
+ */
+export interface DeadLetter {
+  roomId: string;
+  preview: string; // 텍스트 메시지의 앞부분 또는 미디어 설명
+  attempts: number;
+  error: string;
+  failedAt: number;
+}
+
+export interface OutboundStats {
+  pending: number; // 대기 중이거나 전송 중인 메시지 수
+  sent: number;
+  retried: number; // 재시도한 횟수
+  failed: number; // 모든 시도가 실패한 메시지 수
+}
+
+const PREVIEW_LENGTH = 50;
+
+export class OutboundDispatcher {
+  private logger: Logger = new Logger('OutboundDispatcher');
+  // 같은 방의 메시지는 보낸 순서대로 하나씩 전송
+  private lanes = new ConcurrencyLimiter();
+  private globalRate?: SendRate;
+  private roomRate?: SendRate;
+  private attempts: number;
+  private initialDelayMs: number;
+  private maxDelayMs: number;
+  private retryTimeouts: boolean;
+  private maxDeadLetters: number;
+  private onDeadLetter?: (letter: DeadLetter) => void;
+  // 최근 전송 시각 (속도 제한용)
+  private globalSends: number[] = [];
+  private roomSends = new Map<string, number[]>();
+  private deadLetters: DeadLetter[] = [];
+  private sent = 0;
+  private retried = 0;
+  private failed = 0;
+
+  constructor(options: OutboundOptions = {}) {
+    this.globalRate = options.globalRate;
+    this.roomRate = options.roomRate;
+    this.attempts = Math.max(1, options.retry?.attempts ?? 3);
+    this.initialDelayMs = options.retry?.initialDelayMs ?? 500;
+    this.maxDelayMs = options.retry?.maxDelayMs ?? 10000;
+    this.retryTimeouts = options.retry?.retryTimeouts ?? false;
+    this.maxDeadLetters = options.maxDeadLetters ?? 100;
+    this.onDeadLetter = options.onDeadLetter;
+  }
+
+  /**
+   * Queue a message for a room
+   * @param preview - 실패 기록에 남길 메시지 설명
+   * @param send - 실제 전송 함수
+   * @returns 전송되면 완료, 모든 시도가 실패하면 마지막 오류로 reject
+   */
+  send<T>(roomId: string, preview: string, send: () => Promise<T>): Promise<T> {
+    return this.lanes.run(roomId, () => this.deliver(roomId, preview, send));
+  }
+
+  getStats(): OutboundStats {
+    const { active, queued } = this.lanes.getStats();
+    return {
+      pending: active + queued,
+      sent: this.sent,
+      retried: this.retried,
+      failed: this.failed,
+    };
+  }
+
+  /**
+   * Get the most recent messages that could not be sent
+   */
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  private async deliver<T>(
+    roomId: string,
+    preview: string,
+    send: () => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire(roomId);
+
+      try {
+        const result = await send();
+        this.sent++;
+        return result;
+      } catch (error) {
+        if (
+          attempt >= this.attempts ||
+          !isRetryableError(error, this.retryTimeouts)
+        ) {
+          this.deadLetter(roomId, preview, attempt, error);
+          throw error;
+        }
+
+        const delayMs = Math.min(
+          this.initialDelayMs * Math.pow(2, attempt - 1),
+          this.maxDelayMs
+        );
+        this.retried++;
+        this.logger.warn(
+          `Failed to send message to room ${roomId}, retrying in ${delayMs}ms (${attempt}/${this.attempts})`,
+          { error: errorMessage(error) }
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Wait until both the global and the room send rate allow one more message
+   */
+  private async acquire(roomId: string): Promise<void> {
+    const roomSends = this.roomSends.get(roomId) || [];
+    if (this.roomRate && !this.roomSends.has(roomId)) {
+      this.roomSends.set(roomId, roomSends);
+    }
+
+    for (;;) {
+      const now = Date.now();
+      const waitMs = Math.max(
+        waitTime(this.globalSends, this.globalRate, now),
+        waitTime(roomSends, this.roomRate, now)
+      );
+
+      if (waitMs <= 0) {
+        if (this.globalRate) {
+          this.globalSends.push(now);
+        }
+        if (this.roomRate) {
+          roomSends.push(now);
+        }
+        return;
+      }
+
+      await sleep(waitMs);
+    }
+  }
+
+  private deadLetter(
+    roomId: string,
+    preview: string,
+    attempts: number,
+    error: unknown
+  ): void {
+    const letter: DeadLetter = {
+      roomId,
+      preview,
+      attempts,
+      error: errorMessage(error),
+      failedAt: Date.now(),
+    };
+
+    this.failed++;
+    this.deadLetters.push(letter);
+    if (this.deadLetters.length > this.maxDeadLetters) {
+      this.deadLetters.shift();
+    }
+
+    this.logger.error(
+      `Gave up sending message to room ${roomId} after ${attempts} attempt(s)`,
+      letter
+    );
+
+    try {
+      this.onDeadLetter?.(letter);
+    } catch (callbackError) {
+      this.logger.error('Dead letter handler failed:', callbackError);
+    }
+  }
+}
+
+/**
+ * Shorten a text message for logs and dead letters
+ */
+export function previewMessage(message: string): string {
+  return message.length > PREVIEW_LENGTH
+    ? `${message.slice(0, PREVIEW_LENGTH)}...`
+    : message;
+}
+
+// 남은 대기 시간 계산 (기간이 지난 전송 기록은 제거)
+function waitTime(sends: number[], rate: SendRate | undefined, now: number) {
+  if (!rate) {
+    return 0;
+  }
+  while (sends.length > 0 && now - sends[0] >= rate.intervalMs) {
+    sends.shift();
+  }
+  return sends.length < rate.limit ? 0 : rate.intervalMs - (now - sends[0]);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,292 @@
+/**
+ * Rate limiter with pluggable storage backends and scope keys
+ */
+
+import {
+  getStorageAdapter,
+  StorageAdapter,
+  StorageUpdate,
+} from '@/services/storage';
+import { ValidationError } from '@/types';
+import type { ChatContext } from '@/types/models';
+
+/**
+ * - sliding-window: windowMs 동안 최대 limit회 (호출 시각 기록)
+ * - token-bucket: 최대 limit개의 토큰, windowMs마다 limit개가 균등하게 충전
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+/**
+ * 제한을 적용할 단위
+ * - user: 사용자별 (모든 방 합산)
+ * - room: 방별 (방의 모든 사용자 합산)
+ * - user+room: 방 안의 사용자별
+ * - global: 전체 합산
+ */
+export type RateLimitScope = 'user' | 'room' | 'user+room' | 'global';
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+  algorithm?: RateLimitAlgorithm; // 기본: 'sliding-window'
+  scope?: RateLimitScope; // 기본: 'user+room'
+  adapter?: StorageAdapter; // 기본: 봇 저장소 (BotOptions.storage)
+}
+
+export interface RateLimitSubject {
+  userId?: string;
+  roomId?: string;
+  botName?: string; // 지정하면 봇마다 따로 제한 (여러 봇이 같은 방에 있는 경우)
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 다음 호출이 허용되기까지 남은 시간 (허용된 경우 0)
+}
+
+interface SlidingWindowState {
+  hits: number[];
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+const KEY_PREFIX = 'ratelimit';
+
+// clearUserThrottle/clearAllThrottle에서 사용하기 위한 생성된 제한기 목록
+// (이름이 같은 클래스의 제한기가 서로 덮어쓰지 않도록 이름이 아닌 인스턴스로 보관)
+const rateLimiters = new Set<RateLimiter>();
+
+export class RateLimiter {
+  readonly name: string;
+  readonly limit: number;
+  readonly windowMs: number;
+  readonly algorithm: RateLimitAlgorithm;
+  readonly scope: RateLimitScope;
+  private adapter?: StorageAdapter;
+  // update()를 지원하지 않는 저장소에서 같은 키의 읽기/쓰기가 겹치지 않도록 키별로 순서 보장
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(name: string, options: RateLimiterOptions) {
+    if (!Number.isFinite(options.limit) || options.limit < 1) {
+      throw new ValidationError(`Invalid rate limit: ${options.limit}`);
+    }
+    if (!Number.isFinite(options.windowMs) || options.windowMs <= 0) {
+      throw new ValidationError(
+        `Invalid rate limit window: ${options.windowMs}`
+      );
+    }
+
+    this.name = name;
+    this.limit = options.limit;
+    this.windowMs = options.windowMs;
+    this.algorithm = options.algorithm || 'sliding-window';
+    this.scope = options.scope || 'user+room';
+    this.adapter = options.adapter;
+
+    rateLimiters.add(this);
+  }
+
+  /**
+   * Get the scope key for a subject (e.g. `room:123:user:456`)
+   */
+  getScopeKey(subject: RateLimitSubject): string {
+    switch (this.scope) {
+      case 'global':
+        return 'global';
+      case 'user':
+        return `user:${subject.userId}`;
+      case 'room':
+        return `room:${subject.roomId}`;
+      default:
+        return `room:${subject.roomId}:user:${subject.userId}`;
+    }
+  }
+
+  /**
+   * Consume one call for the subject
+   */
+  async consume(subject: RateLimitSubject): Promise<RateLimitResult> {
+    const key = this.getStorageKey(subject);
+    return this.algorithm === 'token-bucket'
+      ? this.consumeTokenBucket(key)
+      : this.consumeSlidingWindow(key);
+  }
+
+  /**
+   * Consume one call for the sender/room of a chat context
+   */
+  consumeContext(context: ChatContext): Promise<RateLimitResult> {
+    return this.consume({
+      userId: context.sender.getIdAsString(),
+      roomId: context.room.getIdAsString(),
+      botName: context.botName,
+    });
+  }
+
+  /**
+   * Reset the limit for a subject
+   */
+  async reset(subject: RateLimitSubject): Promise<void> {
+    await this.storage.delete(this.getStorageKey(subject));
+  }
+
+  /**
+   * Reset every limit that applies to the user (user and user+room scopes)
+   */
+  async resetUser(userId: string): Promise<void> {
+    if (this.scope !== 'user' && this.scope !== 'user+room') {
+      return;
+    }
+
+    const suffix = `user:${userId}`;
+    for (const key of await this.storage.keys(this.getPrefix())) {
+      if (key.endsWith(`:${suffix}`)) {
+        await this.storage.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Reset all limits of this limiter
+   */
+  async resetAll(): Promise<void> {
+    await this.storage.clear(this.getPrefix());
+  }
+
+  private get storage(): StorageAdapter {
+    return this.adapter || getStorageAdapter();
+  }
+
+  private getPrefix(): string {
+    return `${KEY_PREFIX}:${this.name}:`;
+  }
+
+  private getStorageKey(subject: RateLimitSubject): string {
+    const bot = subject.botName ? `bot:${subject.botName}:` : '';
+    return `${this.getPrefix()}${bot}${this.getScopeKey(subject)}`;
+  }
+
+  private consumeSlidingWindow(key: string): Promise<RateLimitResult> {
+    return this.update<SlidingWindowState>(key, (state) => {
+      const now = Date.now();
+      const hits = (state?.hits || []).filter(
+        (time) => now - time < this.windowMs
+      );
+
+      if (hits.length >= this.limit) {
+        const oldest = Math.min(...hits);
+        return {
+          value: { hits },
+          ttlMs: this.windowMs - (now - oldest),
+          result: {
+            allowed: false,
+            remaining: 0,
+            retryAfterMs: this.windowMs - (now - oldest),
+          },
+        };
+      }
+
+      hits.push(now);
+      return {
+        value: { hits },
+        ttlMs: this.windowMs,
+        result: {
+          allowed: true,
+          remaining: this.limit - hits.length,
+          retryAfterMs: 0,
+        },
+      };
+    });
+  }
+
+  private consumeTokenBucket(key: string): Promise<RateLimitResult> {
+    const refillPerMs = this.limit / this.windowMs;
+
+    return this.update<TokenBucketState>(key, (state) => {
+      const now = Date.now();
+      const tokens = state
+        ? Math.min(
+            this.limit,
+            state.tokens + (now - state.updatedAt) * refillPerMs
+          )
+        : this.limit;
+
+      if (tokens < 1) {
+        return {
+          value: state,
+          ttlMs: Math.ceil((this.limit - tokens) / refillPerMs),
+          result: {
+            allowed: false,
+            remaining: 0,
+            retryAfterMs: Math.ceil((1 - tokens) / refillPerMs),
+          },
+        };
+      }
+
+      const remaining = tokens - 1;
+      // 가득 찰 때까지 걸리는 시간 이후에는 상태를 보관할 필요가 없음
+      return {
+        value: { tokens: remaining, updatedAt: now },
+        ttlMs: Math.ceil((this.limit - remaining) / refillPerMs),
+        result: {
+          allowed: true,
+          remaining: Math.floor(remaining),
+          retryAfterMs: 0,
+        },
+      };
+    });
+  }
+
+  /**
+   * Read and write a limiter state atomically
+   * 저장소가 update()를 지원하면 여러 프로세스가 공유해도 횟수가 정확하고,
+   * 지원하지 않으면 이 프로세스 안에서만 키별로 순서를 보장
+   */
+  private update<T>(
+    key: string,
+    updater: (state: T | undefined) => StorageUpdate<T, RateLimitResult>
+  ): Promise<RateLimitResult> {
+    const storage = this.storage;
+    if (storage.update) {
+      return storage.update(key, updater);
+    }
+
+    return this.withLock(key, async () => {
+      const next = updater(await storage.get<T>(key));
+      if (next.value === undefined) {
+        await storage.delete(key);
+      } else {
+        await storage.set(key, next.value, { ttlMs: next.ttlMs });
+      }
+      return next.result;
+    });
+  }
+
+  private async withLock<T>(
+    key: string,
+    task: (key: string) => Promise<T>
+  ): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(() => task(key));
+    this.locks.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Get all rate limiters created in this process
+ */
+export function getRateLimiters(): Set<RateLimiter> {
+  return rateLimiters;
+}
@@ -0,0 +1,237 @@
+/**
+ * Decrypt encrypted columns of the KakaoTalk database through Iris
+ * Iris의 /decrypt는 값 하나씩만 받으므로 요청을 묶지 않고 동시 요청 수만 제한
+ */
+
+import type { IIrisAPI } from '@/types';
+import { ConcurrencyLimiter } from '@/utils/concurrency-limiter';
+import { Logger } from '@/utils/logger';
+import { decodeJson, FriendRow, MessageRow, OpenChatMemberRow } from './rows';
+
+export interface DecryptionOptions {
+  enabled?: boolean; // 기본: true
+  cacheSize?: number; // 복호화 결과를 보관할 최대 개수 (기본: 1000)
+  concurrency?: number; // 동시에 보낼 복호화 요청 수 (기본: 4)
+}
+
+export interface DecryptionStats {
+  hits: number; // 캐시에서 찾은 횟수
+  misses: number; // Iris에 요청한 횟수
+  failures: number; // 복호화에 실패한 횟수
+  cached: number;
+}
+
+export type DecryptApi = Pick<IIrisAPI, 'decrypt' | 'getInfo'>;
+
+// base64 형식의 값만 암호문으로 취급 (이미 복호화된 값은 그대로 사용)
+const CIPHERTEXT_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export class Decryptor {
+  private logger: Logger = new Logger('Decryptor');
+  private enabled = true;
+  private cacheSize = 1000;
+  private limiter = new ConcurrencyLimiter({ concurrency: 4 });
+  // 최근에 사용한 항목이 뒤에 오도록 유지 (LRU)
+  private cache = new Map<string, string>();
+  // 같은 값을 동시에 여러 번 요청하지 않도록 진행 중인 요청 공유
+  private pending = new Map<string, Promise<string | null>>();
+  private botId?: Promise<string>;
+  private hits = 0;
+  private misses = 0;
+  private failures = 0;
+
+  constructor(
+    private api: DecryptApi,
+    options: DecryptionOptions = {}
+  ) {
+    this.configure(options);
+  }
+
+  configure(options: DecryptionOptions): void {
+    this.enabled = options.enabled ?? this.enabled;
+    if (options.cacheSize !== undefined) {
+      this.cacheSize = Math.max(0, options.cacheSize);
+      this.trimCache();
+    }
+    if (options.concurrency !== undefined) {
+      this.limiter = new ConcurrencyLimiter({
+        concurrency: options.concurrency,
+      });
+    }
+  }
+
+  getStats(): DecryptionStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      failures: this.failures,
+      cached: this.cache.size,
+    };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Decrypt a value, or return it unchanged if it is not encrypted or cannot be decrypted
+   */
+  async decrypt(
+    enc: number,
+    value: string,
+    userId: string | number | bigint
+  ): Promise<string> {
+    if (!this.enabled || enc <= 0 || !isCiphertext(value)) {
+      return value;
+    }
+
+    const key = `${enc}:${userId}:${value}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      this.hits++;
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      this.misses++;
+      request = this.limiter
+        .run(undefined, () => this.api.decrypt(enc, value, String(userId)))
+        .catch((error) => {
+          this.logger.debug('Decrypt failed', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return null;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+
+    const plain = await request;
+    if (plain === null) {
+      this.failures++;
+      return value;
+    }
+
+    this.remember(key, plain);
+    return plain;
+  }
+
+  /**
+   * Decrypt the message and attachment of a messages row (보낸 사람의 ID로 복호화)
+   */
+  async decryptMessage(row: MessageRow): Promise<MessageRow> {
+    if (!this.enabled || row.enc <= 0) {
+      return row;
+    }
+
+    const rawAttachment =
+      typeof row.raw.attachment === 'string' ? row.raw.attachment : undefined;
+    const [message, attachment] = await Promise.all([
+      this.decrypt(row.enc, row.message, row.userId),
+      rawAttachment
+        ? this.decrypt(row.enc, rawAttachment, row.userId)
+        : undefined,
+    ]);
+
+    const decoded = attachment === undefined ? null : decodeJson(attachment);
+    return {
+      ...row,
+      message,
+      attachment:
+        decoded && typeof decoded === 'object' ? decoded : row.attachment,
+      raw: {
+        ...row.raw,
+        message,
+        ...(attachment === undefined ? {} : { attachment }),
+      },
+    };
+  }
+
+  /**
+   * Decrypt the nickname and profile image URLs of an open_chat_member row (봇의 ID로 복호화)
+   */
+  async decryptMember(row: OpenChatMemberRow): Promise<OpenChatMemberRow> {
+    const botId = await this.getBotIdFor(row.enc);
+    if (botId === undefined) {
+      return row;
+    }
+
+    const [nickname, profileImageUrl, originalProfileImageUrl] =
+      await Promise.all([
+        this.decryptNullable(row.enc, row.nickname, botId),
+        this.decryptNullable(row.enc, row.profileImageUrl, botId),
+        this.decryptNullable(row.enc, row.originalProfileImageUrl, botId),
+      ]);
+    return { ...row, nickname, profileImageUrl, originalProfileImageUrl };
+  }
+
+  /**
+   * Decrypt the name and profile image URL of a friends row (봇의 ID로 복호화)
+   */
+  async decryptFriend(row: FriendRow): Promise<FriendRow> {
+    const botId = await this.getBotIdFor(row.enc);
+    if (botId === undefined) {
+      return row;
+    }
+
+    const [name, profileImageUrl] = await Promise.all([
+      this.decryptNullable(row.enc, row.name, botId),
+      this.decryptNullable(row.enc, row.profileImageUrl, botId),
+    ]);
+    return { ...row, name, profileImageUrl };
+  }
+
+  private async decryptNullable(
+    enc: number,
+    value: string | null,
+    userId: string
+  ): Promise<string | null> {
+    return value === null ? null : this.decrypt(enc, value, userId);
+  }
+
+  /**
+   * Get the bot's user ID (db2 테이블은 봇 계정의 ID로 암호화됨)
+   */
+  private async getBotIdFor(enc: number): Promise<string | undefined> {
+    if (!this.enabled || enc <= 0) {
+      return undefined;
+    }
+
+    if (!this.botId) {
+      this.botId = this.api.getInfo().then((info) => String(info.bot_id));
+    }
+    try {
+      return await this.botId;
+    } catch (error) {
+      // 다음 조회에서 다시 시도
+      this.botId = undefined;
+      this.logger.debug('Could not get bot ID for decryption', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  private remember(key: string, plain: string): void {
+    this.cache.set(key, plain);
+    this.trimCache();
+  }
+
+  private trimCache(): void {
+    while (this.cache.size > this.cacheSize) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+  }
+}
+
+function isCiphertext(value: string): boolean {
+  return (
+    value.length >= 4 &&
+    value.length % 4 === 0 &&
+    CIPHERTEXT_PATTERN.test(value)
+  );
+}
@@ -0,0 +1,21 @@
+import { Decryptor } from './Decryptor';
+import { DbId, QueryApi, Repository } from './Repository';
+import { FriendRow, toFriendRow } from './rows';
+
+export class FriendRepository extends Repository {
+  constructor(
+    api: QueryApi,
+    private decryptor: Decryptor
+  ) {
+    super(api);
+  }
+
+  async findById(userId: DbId): Promise<FriendRow | null> {
+    const row = await this.selectOne(
+      'SELECT * FROM db2.friends WHERE id = ?',
+      [userId],
+      toFriendRow
+    );
+    return row ? this.decryptor.decryptFriend(row) : null;
+  }
+}
@@ -0,0 +1,41 @@
+import { Decryptor } from './Decryptor';
+import { DbId, QueryApi, Repository } from './Repository';
+import { OpenChatMemberRow, toOpenChatMemberRow } from './rows';
+
+/**
+ * Open chat members (db2.open_chat_member)
+ */
+export class MemberRepository extends Repository {
+  constructor(
+    api: QueryApi,
+    private decryptor: Decryptor
+  ) {
+    super(api);
+  }
+
+  async findByUserId(userId: DbId): Promise<OpenChatMemberRow | null> {
+    const rows = await this.findMembers(
+      'SELECT * FROM db2.open_chat_member WHERE user_id = ?',
+      [userId]
+    );
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Get every member of an open chat link
+   */
+  findByLinkId(linkId: DbId): Promise<OpenChatMemberRow[]> {
+    return this.findMembers(
+      'SELECT * FROM db2.open_chat_member WHERE link_id = ?',
+      [linkId]
+    );
+  }
+
+  private async findMembers(
+    sql: string,
+    bind: unknown[]
+  ): Promise<OpenChatMemberRow[]> {
+    const rows = await this.select(sql, bind, toOpenChatMemberRow);
+    return Promise.all(rows.map((row) => this.decryptor.decryptMember(row)));
+  }
+}
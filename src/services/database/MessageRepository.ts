@@ -0,0 +1,92 @@
+import { Decryptor } from './Decryptor';
+import { DbId, QueryApi, Repository } from './Repository';
+import { MessageRow, toMessageRow } from './rows';
+
+export interface MessageQueryOptions {
+  limit?: number; // 기본: 1
+  since?: Date; // 이 시각 이후에 보낸 메시지만
+  order?: 'asc' | 'desc'; // 로그 ID 순서 (기본: findAfter는 asc, findBefore는 desc)
+}
+
+export class MessageRepository extends Repository {
+  constructor(
+    api: QueryApi,
+    private decryptor: Decryptor
+  ) {
+    super(api);
+  }
+
+  async findById(logId: DbId, roomId?: DbId): Promise<MessageRow | null> {
+    const rows =
+      roomId === undefined
+        ? await this.findMessages('SELECT * FROM messages WHERE id = ?', [
+            logId,
+          ])
+        : await this.findMessages(
+            'SELECT * FROM messages WHERE id = ? AND chat_id = ?',
+            [logId, roomId]
+          );
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Get messages sent in a room after a log ID
+   */
+  findAfter(
+    roomId: DbId,
+    logId: DbId,
+    options: MessageQueryOptions = {}
+  ): Promise<MessageRow[]> {
+    return this.findRange(roomId, '>', logId, options.order ?? 'asc', options);
+  }
+
+  /**
+   * Get messages sent in a room before a log ID
+   */
+  findBefore(
+    roomId: DbId,
+    logId: DbId,
+    options: MessageQueryOptions = {}
+  ): Promise<MessageRow[]> {
+    return this.findRange(roomId, '<', logId, options.order ?? 'desc', options);
+  }
+
+  /**
+   * Get the latest messages of a room (최신 메시지부터)
+   */
+  findRecent(roomId: DbId, limit = 20): Promise<MessageRow[]> {
+    return this.findMessages(
+      'SELECT * FROM messages WHERE chat_id = ? ORDER BY id DESC LIMIT ?',
+      [roomId, limit]
+    );
+  }
+
+  private findRange(
+    roomId: DbId,
+    operator: '<' | '>',
+    logId: DbId,
+    order: 'asc' | 'desc',
+    options: MessageQueryOptions
+  ): Promise<MessageRow[]> {
+    const conditions = ['chat_id = ?', `id ${operator} ?`];
+    const bind: unknown[] = [roomId, logId];
+    if (options.since) {
+      conditions.push('created_at >= ?');
+      bind.push(Math.floor(options.since.getTime() / 1000));
+    }
+    bind.push(options.limit ?? 1);
+
+    return this.findMessages(
+      `SELECT * FROM messages WHERE ${conditions.join(' AND ')} ORDER BY id ${order === 'asc' ? 'ASC' : 'DESC'} LIMIT ?`,
+      bind
+    );
+  }
+
+  private async findMessages(
+    sql: string,
+    bind: unknown[]
+  ): Promise<MessageRow[]> {
+    const rows = await this.select(sql, bind, toMessageRow);
+    return Promise.all(rows.map((row) => this.decryptor.decryptMessage(row)));
+  }
+}
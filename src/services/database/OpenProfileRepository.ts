@@ -0,0 +1,26 @@
+import { Repository, DbId } from './Repository';
+import { OpenProfileRow, toOpenProfileRow } from './rows';
+
+/**
+ * The bot's own open chat profiles (db2.open_profile)
+ */
+export class OpenProfileRepository extends Repository {
+  findByLinkId(linkId: DbId): Promise<OpenProfileRow | null> {
+    return this.selectOne(
+      'SELECT * FROM db2.open_profile WHERE link_id = ?',
+      [linkId],
+      toOpenProfileRow
+    );
+  }
+
+  /**
+   * Get the profile the bot uses in an open chat room
+   */
+  findByRoomId(roomId: DbId): Promise<OpenProfileRow | null> {
+    return this.selectOne(
+      'SELECT T2.* FROM chat_rooms AS T1 JOIN db2.open_profile AS T2 ON T1.link_id = T2.link_id WHERE T1.id = ?',
+      [roomId],
+      toOpenProfileRow
+    );
+  }
+}
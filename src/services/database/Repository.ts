@@ -0,0 +1,40 @@
+/**
+ * Base class of the KakaoTalk database repositories
+ */
+
+import type { IIrisAPI } from '@/types';
+import type { IrisRawData } from '@/types/models/base';
+
+export type DbId = number | string | bigint;
+
+export type QueryApi = Pick<IIrisAPI, 'query'>;
+
+export abstract class Repository {
+  constructor(protected api: QueryApi) {}
+
+  /**
+   * Run a query and decode every row
+   */
+  protected async select<T>(
+    sql: string,
+    bind: unknown[],
+    decode: (raw: IrisRawData) => T
+  ): Promise<T[]> {
+    const rows = await this.api.query<IrisRawData>(sql, bind.map(toBind));
+    return rows.map(decode);
+  }
+
+  protected async selectOne<T>(
+    sql: string,
+    bind: unknown[],
+    decode: (raw: IrisRawData) => T
+  ): Promise<T | null> {
+    const rows = await this.select(sql, bind, decode);
+    return rows[0] ?? null;
+  }
+}
+
+// ID는 정밀도를 잃지 않도록 문자열로 전달
+function toBind(value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
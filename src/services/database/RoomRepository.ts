@@ -0,0 +1,24 @@
+import { Repository, DbId } from './Repository';
+import { ChatRoomRow, toChatRoomRow } from './rows';
+
+export class RoomRepository extends Repository {
+  findById(roomId: DbId): Promise<ChatRoomRow | null> {
+    return this.selectOne(
+      'SELECT * FROM chat_rooms WHERE id = ?',
+      [roomId],
+      toChatRoomRow
+    );
+  }
+
+  /**
+   * Get the room type (DirectChat, MultiChat, OM 등)
+   */
+  async getType(roomId: DbId): Promise<string | null> {
+    const row = await this.selectOne(
+      'SELECT id, type FROM chat_rooms WHERE id = ?',
+      [roomId],
+      toChatRoomRow
+    );
+    return row?.type ?? null;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Typed access to the KakaoTalk database through the Iris query API
+ */
+
+import { DecryptApi, Decryptor } from './Decryptor';
+import { FriendRepository } from './FriendRepository';
+import { MemberRepository } from './MemberRepository';
+import { MessageRepository } from './MessageRepository';
+import { OpenProfileRepository } from './OpenProfileRepository';
+import { QueryApi } from './Repository';
+import { RoomRepository } from './RoomRepository';
+
+export { Decryptor } from './Decryptor';
+export type {
+  DecryptApi,
+  DecryptionOptions,
+  DecryptionStats,
+} from './Decryptor';
+export { FriendRepository } from './FriendRepository';
+export { MemberRepository } from './MemberRepository';
+export { MessageRepository } from './MessageRepository';
+export type { MessageQueryOptions } from './MessageRepository';
+export { OpenProfileRepository } from './OpenProfileRepository';
+export { Repository } from './Repository';
+export type { DbId, QueryApi } from './Repository';
+export { RoomRepository } from './RoomRepository';
+export type {
+  ChatRoomRow,
+  FriendRow,
+  MessageRow,
+  OpenChatMemberRow,
+  OpenProfileRow,
+} from './rows';
+
+export type DatabaseApi = QueryApi & DecryptApi;
+
+export class IrisDatabase {
+  readonly decryptor: Decryptor;
+  readonly rooms: RoomRepository;
+  readonly messages: MessageRepository;
+  readonly members: MemberRepository;
+  readonly friends: FriendRepository;
+  readonly openProfiles: OpenProfileRepository;
+
+  constructor(api: DatabaseApi) {
+    this.decryptor = new Decryptor(api);
+    this.rooms = new RoomRepository(api);
+    this.messages = new MessageRepository(api, this.decryptor);
+    this.members = new MemberRepository(api, this.decryptor);
+    this.friends = new FriendRepository(api, this.decryptor);
+    this.openProfiles = new OpenProfileRepository(api);
+  }
+}
+
+// API 인스턴스마다 하나의 IrisDatabase 공유
+const databases = new WeakMap<DatabaseApi, IrisDatabase>();
+
+/**
+ * Get the database of an Iris API instance
+ */
+export function getDatabase(api: DatabaseApi): IrisDatabase {
+  let database = databases.get(api);
+  if (!database) {
+    database = new IrisDatabase(api);
+    databases.set(api, database);
+  }
+  return database;
+}
@@ -0,0 +1,196 @@
+/**
+ * Typed rows of the KakaoTalk database and the decoders shared by the repositories
+ */
+
+import type { IrisRawData, VField } from '@/types/models/base';
+import { safeJsonParseWithReviver, toSafeId } from '@/utils';
+
+/**
+ * chat_rooms
+ */
+export interface ChatRoomRow {
+  id: bigint;
+  type: string | null; // 예: DirectChat, MultiChat, OM (오픈채팅)
+  linkId: bigint | null; // 오픈채팅 링크 ID (일반 채팅방은 null)
+  activeMembersCount: number | null;
+  lastLogId: bigint | null;
+  meta: any;
+  raw: IrisRawData;
+}
+
+/**
+ * messages (chat_logs)
+ */
+export interface MessageRow {
+  id: bigint;
+  chatId: bigint;
+  userId: bigint;
+  type: number;
+  message: string;
+  attachment: Record<string, any> | null;
+  v: VField;
+  enc: number; // 0이면 암호화되지 않음
+  createdAt: Date | null;
+  senderName?: string;
+  raw: IrisRawData; // 원본 행 (복호화한 경우 message, attachment는 평문)
+}
+
+/**
+ * db2.open_chat_member (오픈채팅 참여자)
+ */
+export interface OpenChatMemberRow {
+  userId: bigint;
+  linkId: bigint | null;
+  nickname: string | null;
+  profileImageUrl: string | null;
+  originalProfileImageUrl: string | null;
+  memberType: number; // 1: 방장, 2: 일반, 4: 부방장, 8: 봇
+  enc: number;
+  raw: IrisRawData;
+}
+
+/**
+ * db2.friends
+ */
+export interface FriendRow {
+  id: bigint;
+  name: string | null;
+  profileImageUrl: string | null;
+  enc: number;
+  raw: IrisRawData;
+}
+
+/**
+ * db2.open_profile (오픈채팅방에서 사용하는 내 프로필)
+ */
+export interface OpenProfileRow {
+  linkId: bigint;
+  userId: bigint | null;
+  nickname: string | null;
+  profileImageUrl: string | null;
+  memberType: number;
+  raw: IrisRawData;
+}
+
+export function decodeId(value: unknown): bigint | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  try {
+    return toSafeId(value as number | string | bigint);
+  } catch {
+    return null;
+  }
+}
+
+export function decodeInt(value: unknown, defaultValue = 0): number {
+  if (value === null || value === undefined || value === '') {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.trunc(parsed) : defaultValue;
+}
+
+export function decodeText(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return String(value);
+}
+
+/**
+ * Decode a JSON column (문자열이면 큰 정수를 bigint로 보존하여 파싱, 실패하면 null)
+ */
+export function decodeJson(value: unknown): any {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return safeJsonParseWithReviver(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a unix timestamp in seconds (또는 밀리초) into a Date
+ */
+export function decodeTimestamp(value: unknown): Date | null {
+  const seconds = decodeInt(value, NaN);
+  if (Number.isNaN(seconds)) {
+    return null;
+  }
+  // 밀리초 단위 값도 허용
+  return new Date(seconds > 1e12 ? seconds : seconds * 1000);
+}
+
+export function toChatRoomRow(raw: IrisRawData): ChatRoomRow {
+  return {
+    id: toSafeId(raw.id),
+    type: decodeText(raw.type),
+    linkId: decodeId(raw.link_id),
+    activeMembersCount:
+      raw.active_members_count === undefined
+        ? null
+        : decodeInt(raw.active_members_count),
+    lastLogId: decodeId(raw.last_log_id),
+    meta: decodeJson(raw.meta),
+    raw,
+  };
+}
+
+export function toMessageRow(raw: IrisRawData): MessageRow {
+  const v: VField = decodeJson(raw.v) || {};
+  const attachment = decodeJson(raw.attachment);
+  return {
+    id: toSafeId(raw.id),
+    chatId: toSafeId(raw.chat_id),
+    userId: toSafeId(raw.user_id),
+    type: decodeInt(raw.type),
+    message: decodeText(raw.message) || '',
+    attachment:
+      attachment && typeof attachment === 'object' ? attachment : null,
+    v,
+    enc: decodeInt(v.enc),
+    createdAt: decodeTimestamp(raw.created_at),
+    senderName: raw.sender_name || undefined,
+    raw,
+  };
+}
+
+export function toOpenChatMemberRow(raw: IrisRawData): OpenChatMemberRow {
+  return {
+    userId: toSafeId(raw.user_id),
+    linkId: decodeId(raw.link_id),
+    nickname: decodeText(raw.nickname),
+    profileImageUrl: decodeText(raw.profile_image_url),
+    originalProfileImageUrl: decodeText(raw.original_profile_image_url),
+    memberType: decodeInt(raw.link_member_type),
+    enc: decodeInt(raw.enc),
+    raw,
+  };
+}
+
+export function toFriendRow(raw: IrisRawData): FriendRow {
+  return {
+    id: toSafeId(raw.id),
+    name: decodeText(raw.name),
+    profileImageUrl: decodeText(raw.profile_image_url),
+    enc: decodeInt(raw.enc),
+    raw,
+  };
+}
+
+export function toOpenProfileRow(raw: IrisRawData): OpenProfileRow {
+  return {
+    linkId: toSafeId(raw.link_id),
+    userId: decodeId(raw.user_id),
+    nickname: decodeText(raw.nickname),
+    profileImageUrl: decodeText(raw.o_profile_image_url),
+    memberType: decodeInt(raw.link_member_type),
+    raw,
+  };
+}
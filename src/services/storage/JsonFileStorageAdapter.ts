@@ -0,0 +1,138 @@
+/**
+ * JSON file storage adapter
+ * Keeps entries in memory and writes the whole file after changes (debounced)
+ */
+
+import { IrisError } from '@/types';
+import { Logger } from '@/utils/logger';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  MemoryStorageAdapter,
+  MemoryStorageOptions,
+} from './MemoryStorageAdapter';
+import { isEntryExpired, StoredEntry } from './StorageAdapter';
+
+export interface JsonFileStorageOptions extends MemoryStorageOptions {
+  filePath: string;
+  flushDelayMs?: number; // 변경 후 파일에 기록하기까지의 지연 (기본: 200ms)
+  pretty?: boolean; // 들여쓰기 포함 여부
+}
+
+export class JsonFileStorageAdapter extends MemoryStorageAdapter {
+  readonly name: string = 'json-file';
+  private logger: Logger = new Logger('JsonFileStorage');
+  private filePath: string;
+  private flushDelayMs: number;
+  private pretty: boolean;
+  private flushTimer?: NodeJS.Timeout;
+  private writing: Promise<void> = Promise.resolve();
+  // 읽지 못한 파일을 옮기지도 못했으면 덮어쓰지 않도록 기록 중단
+  private readOnly = false;
+
+  constructor(options: JsonFileStorageOptions) {
+    super(options);
+    this.filePath = path.resolve(options.filePath);
+    this.flushDelayMs = options.flushDelayMs ?? 200;
+    this.pretty = options.pretty ?? false;
+    this.load();
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    await this.flush();
+  }
+
+  /**
+   * Write pending changes to disk immediately
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.readOnly) {
+      throw new IrisError(
+        `Not writing ${this.filePath} because it could not be loaded`,
+        'STORAGE_ERROR'
+      );
+    }
+
+    const data: Record<string, StoredEntry> = {};
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (!isEntryExpired(entry, now)) {
+        data[key] = entry;
+      }
+    }
+
+    const content = JSON.stringify(data, null, this.pretty ? 2 : undefined);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => this.writeAtomic(content));
+    await this.writing;
+  }
+
+  protected onChange(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush().catch((error) => {
+        this.logger.error(`Failed to write ${this.filePath}:`, error);
+      });
+    }, this.flushDelayMs);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const content = fs.readFileSync(this.filePath, 'utf-8');
+      const data = content.trim() ? JSON.parse(content) : {};
+      for (const [key, entry] of Object.entries<StoredEntry>(data)) {
+        if (entry && typeof entry === 'object' && !isEntryExpired(entry)) {
+          this.entries.set(key, entry);
+        }
+      }
+      this.logger.debug(
+        `Loaded ${this.entries.size} entries from ${this.filePath}`
+      );
+    } catch (error) {
+      this.logger.error(`Failed to load ${this.filePath}:`, error);
+      this.entries.clear();
+      this.moveAside();
+    }
+  }
+
+  /**
+   * Keep a file that could not be loaded instead of overwriting it with empty data
+   */
+  private moveAside(): void {
+    const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+    try {
+      fs.renameSync(this.filePath, backupPath);
+      this.logger.warn(
+        `Moved unreadable storage file to ${backupPath}, starting with empty storage`
+      );
+    } catch (error) {
+      this.readOnly = true;
+      this.logger.error(
+        `Failed to move ${this.filePath} aside, changes will not be saved:`,
+        error
+      );
+    }
+  }
+
+  // 임시 파일에 기록한 뒤 rename하여 중간에 종료되어도 파일이 깨지지 않도록 함
+  private async writeAtomic(content: string): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, content, 'utf-8');
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * In-memory storage adapter (default, not persisted across restarts)
+ */
+
+import {
+  getExpiresAt,
+  isEntryExpired,
+  StorageAdapter,
+  StorageSetOptions,
+  StorageUpdate,
+  StoredEntry,
+} from './StorageAdapter';
+
+export interface MemoryStorageOptions {
+  sweepIntervalMs?: number; // 만료된 항목 정리 주기 (기본: 60초, 0이면 정리하지 않음)
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name: string = 'memory';
+  protected entries = new Map<string, StoredEntry>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(options: MemoryStorageOptions = {}) {
+    const sweepIntervalMs = options.sweepIntervalMs ?? 60 * 1000;
+    if (sweepIntervalMs > 0) {
+      this.sweepTimer = setInterval(() => this.evictExpired(), sweepIntervalMs);
+      // 정리 타이머가 프로세스 종료를 막지 않도록 함
+      this.sweepTimer.unref();
+    }
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const entry = this.readEntry(key);
+    return entry ? (clone(entry.value) as T) : undefined;
+  }
+
+  async set<T = any>(
+    key: string,
+    value: T,
+    options?: StorageSetOptions
+  ): Promise<void> {
+    if (value === undefined) {
+      await this.delete(key);
+      return;
+    }
+
+    this.entries.set(key, {
+      value: clone(value),
+      expiresAt: getExpiresAt(options),
+    });
+    this.onChange();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const removed = this.entries.delete(key);
+    if (removed) {
+      this.onChange();
+    }
+    return removed;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.readEntry(key) !== undefined;
+  }
+
+  async update<T = any, R = void>(
+    key: string,
+    updater: (current: T | undefined) => StorageUpdate<T, R>
+  ): Promise<R> {
+    // 읽기부터 쓰기까지 동기적으로 실행되므로 다른 호출이 끼어들지 않음
+    const entry = this.readEntry(key);
+    const next = updater(entry ? (clone(entry.value) as T) : undefined);
+
+    if (next.value === undefined) {
+      if (this.entries.delete(key)) {
+        this.onChange();
+      }
+    } else {
+      this.entries.set(key, {
+        value: clone(next.value),
+        expiresAt: getExpiresAt(next),
+      });
+      this.onChange();
+    }
+    return next.result;
+  }
+
+  async keys(prefix?: string): Promise<string[]> {
+    this.evictExpired();
+    const keys = Array.from(this.entries.keys());
+    return prefix ? keys.filter((key) => key.startsWith(prefix)) : keys;
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (!prefix) {
+      this.entries.clear();
+    } else {
+      for (const key of Array.from(this.entries.keys())) {
+        if (key.startsWith(prefix)) {
+          this.entries.delete(key);
+        }
+      }
+    }
+    this.onChange();
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  /**
+   * Hook for subclasses that persist the entry map
+   */
+  protected onChange(): void {}
+
+  private readEntry(key: string): StoredEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (isEntryExpired(entry)) {
+      this.entries.delete(key);
+      this.onChange();
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    let changed = false;
+    for (const [key, entry] of this.entries) {
+      if (isEntryExpired(entry, now)) {
+        this.entries.delete(key);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.onChange();
+    }
+  }
+}
+
+// 저장된 값이 호출자에 의해 변경되지 않도록 JSON 형태로 복사
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
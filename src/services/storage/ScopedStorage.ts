@@ -0,0 +1,101 @@
+/**
+ * Namespaced key/value view over a storage adapter
+ */
+
+import { StorageAdapter, StorageSetOptions } from './StorageAdapter';
+
+export class ScopedStorage {
+  constructor(
+    private readonly resolveAdapter: () => StorageAdapter,
+    public readonly namespace: string
+  ) {}
+
+  get<T = any>(key: string): Promise<T | undefined> {
+    return this.adapter.get<T>(this.key(key));
+  }
+
+  /**
+   * Get a value, falling back to the given default when missing
+   */
+  async getOrDefault<T>(key: string, defaultValue: T): Promise<T> {
+    const value = await this.get<T>(key);
+    return value === undefined ? defaultValue : value;
+  }
+
+  set<T = any>(
+    key: string,
+    value: T,
+    options?: StorageSetOptions
+  ): Promise<void> {
+    return this.adapter.set(this.key(key), value, options);
+  }
+
+  delete(key: string): Promise<boolean> {
+    return this.adapter.delete(this.key(key));
+  }
+
+  has(key: string): Promise<boolean> {
+    return this.adapter.has(this.key(key));
+  }
+
+  /**
+   * List keys in this scope (without the namespace prefix)
+   */
+  async keys(): Promise<string[]> {
+    const prefix = this.key('');
+    const keys = await this.adapter.keys(prefix);
+    return keys.map((key) => key.substring(prefix.length));
+  }
+
+  /**
+   * Remove every key in this scope, including nested scopes
+   */
+  clear(): Promise<void> {
+    return this.adapter.clear(this.key(''));
+  }
+
+  /**
+   * Create a nested scope (e.g. `storage.scope('quiz')`)
+   */
+  scope(name: string): ScopedStorage {
+    return new ScopedStorage(this.resolveAdapter, `${this.namespace}:${name}`);
+  }
+
+  private get adapter(): StorageAdapter {
+    return this.resolveAdapter();
+  }
+
+  private key(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+}
+
+/**
+ * Storage exposed on ChatContext: bot-wide scope with per-room and per-user scopes
+ */
+export class ContextStorage extends ScopedStorage {
+  public readonly room: ScopedStorage;
+  public readonly user: ScopedStorage;
+
+  /**
+   * @param botName - 지정하면 키에 봇 이름을 붙여 같은 방의 다른 봇과 데이터를 분리
+   */
+  constructor(
+    resolveAdapter: () => StorageAdapter,
+    roomId: string,
+    private readonly userId: string,
+    botName?: string
+  ) {
+    const prefix = botName ? `data:bot:${botName}` : 'data';
+    super(resolveAdapter, `${prefix}:global`);
+    this.room = new ScopedStorage(resolveAdapter, `${prefix}:room:${roomId}`);
+    this.user = new ScopedStorage(resolveAdapter, `${prefix}:user:${userId}`);
+  }
+
+  /**
+   * Scope for a user within a specific room
+   */
+  get roomUser(): ScopedStorage {
+    return this.room.scope(`user:${this.userId}`);
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * SQLite storage adapter
+ * Requires the optional `sqlite3` package (pnpm add sqlite3)
+ */
+
+import { IrisError } from '@/types';
+import { Logger } from '@/utils/logger';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getExpiresAt,
+  StorageAdapter,
+  StorageSetOptions,
+  StorageUpdate,
+} from './StorageAdapter';
+
+export interface SqliteStorageOptions {
+  filePath: string;
+  tableName?: string; // 기본: iris_storage
+}
+
+// Minimal subset of the sqlite3 Database API used by this adapter
+interface SqliteDatabase {
+  run(
+    sql: string,
+    params: any[],
+    callback: (this: { changes: number }, error: Error | null) => void
+  ): void;
+  get(
+    sql: string,
+    params: any[],
+    callback: (error: Error | null, row?: any) => void
+  ): void;
+  all(
+    sql: string,
+    params: any[],
+    callback: (error: Error | null, rows: any[]) => void
+  ): void;
+  close(callback: (error: Error | null) => void): void;
+}
+
+// update()에서 다른 프로세스와 충돌했을 때 다시 시도하는 최대 횟수
+const MAX_UPDATE_ATTEMPTS = 20;
+
+export class SqliteStorageAdapter implements StorageAdapter {
+  readonly name: string = 'sqlite';
+  private logger: Logger = new Logger('SqliteStorage');
+  private filePath: string;
+  private tableName: string;
+  private ready?: Promise<SqliteDatabase>;
+
+  constructor(options: SqliteStorageOptions) {
+    this.filePath =
+      options.filePath === ':memory:'
+        ? options.filePath
+        : path.resolve(options.filePath);
+    this.tableName = options.tableName || 'iris_storage';
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new IrisError(
+        `Invalid SQLite table name: ${this.tableName}`,
+        'STORAGE_ERROR'
+      );
+    }
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const row = await this.queryOne(
+      `SELECT value FROM ${this.tableName} WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+      [key, Date.now()]
+    );
+    return row ? (JSON.parse(row.value) as T) : undefined;
+  }
+
+  async set<T = any>(
+    key: string,
+    value: T,
+    options?: StorageSetOptions
+  ): Promise<void> {
+    if (value === undefined) {
+      await this.delete(key);
+      return;
+    }
+
+    await this.execute(
+      `INSERT INTO ${this.tableName} (key, value, expires_at) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`,
+      [key, JSON.stringify(value), getExpiresAt(options) ?? null]
+    );
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const changes = await this.execute(
+      `DELETE FROM ${this.tableName} WHERE key = ?`,
+      [key]
+    );
+    return changes > 0;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const row = await this.queryOne(
+      `SELECT 1 AS found FROM ${this.tableName} WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+      [key, Date.now()]
+    );
+    return !!row;
+  }
+
+  /**
+   * Compare-and-set: 읽은 행이 그대로일 때만 한 문장으로 바꾸고, 다른 프로세스가 먼저 바꿨으면 다시 읽어 재시도
+   */
+  async update<T = any, R = void>(
+    key: string,
+    updater: (current: T | undefined) => StorageUpdate<T, R>
+  ): Promise<R> {
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const row = await this.queryOne(
+        `SELECT value, expires_at FROM ${this.tableName} WHERE key = ?`,
+        [key]
+      );
+      const live =
+        row && (row.expires_at === null || row.expires_at > Date.now());
+      const next = updater(live ? (JSON.parse(row.value) as T) : undefined);
+
+      let changes: number;
+      if (!row) {
+        if (next.value === undefined) {
+          return next.result;
+        }
+        changes = await this.execute(
+          `INSERT OR IGNORE INTO ${this.tableName} (key, value, expires_at) VALUES (?, ?, ?)`,
+          [key, JSON.stringify(next.value), getExpiresAt(next) ?? null]
+        );
+      } else if (next.value === undefined) {
+        changes = await this.execute(
+          `DELETE FROM ${this.tableName} WHERE key = ? AND value = ? AND expires_at IS ?`,
+          [key, row.value, row.expires_at]
+        );
+      } else {
+        changes = await this.execute(
+          `UPDATE ${this.tableName} SET value = ?, expires_at = ? WHERE key = ? AND value = ? AND expires_at IS ?`,
+          [
+            JSON.stringify(next.value),
+            getExpiresAt(next) ?? null,
+            key,
+            row.value,
+            row.expires_at,
+          ]
+        );
+      }
+
+      if (changes > 0) {
+        return next.result;
+      }
+    }
+
+    throw new IrisError(
+      `Failed to update ${key}: too many concurrent updates`,
+      'STORAGE_ERROR'
+    );
+  }
+
+  async keys(prefix?: string): Promise<string[]> {
+    const db = await this.getDatabase();
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      db.all(
+        `SELECT key FROM ${this.tableName} WHERE (expires_at IS NULL OR expires_at > ?) AND substr(key, 1, ?) = ? ORDER BY key`,
+        [Date.now(), (prefix || '').length, prefix || ''],
+        (error, result) => (error ? reject(error) : resolve(result))
+      );
+    });
+    return rows.map((row) => row.key);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (!prefix) {
+      await this.execute(`DELETE FROM ${this.tableName}`, []);
+      return;
+    }
+
+    await this.execute(
+      `DELETE FROM ${this.tableName} WHERE substr(key, 1, ?) = ?`,
+      [prefix.length, prefix]
+    );
+  }
+
+  async close(): Promise<void> {
+    if (!this.ready) {
+      return;
+    }
+
+    const db = await this.ready;
+    this.ready = undefined;
+    await new Promise<void>((resolve, reject) => {
+      db.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private getDatabase(): Promise<SqliteDatabase> {
+    if (!this.ready) {
+      // 열지 못했으면 다음 호출에서 다시 시도 (예: sqlite3 설치 후)
+      const ready = this.open().catch((error) => {
+        if (this.ready === ready) {
+          this.ready = undefined;
+        }
+        throw error;
+      });
+      this.ready = ready;
+    }
+    return this.ready;
+  }
+
+  private async open(): Promise<SqliteDatabase> {
+    let sqlite3: any;
+    try {
+      // Optional dependency, loaded only when this adapter is used
+      sqlite3 = require('sqlite3');
+    } catch (error) {
+      throw new IrisError(
+        'SqliteStorageAdapter requires the "sqlite3" package. Install it with `pnpm add sqlite3`.',
+        'STORAGE_ERROR',
+        error
+      );
+    }
+
+    if (this.filePath !== ':memory:') {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    }
+
+    const db = await new Promise<SqliteDatabase>((resolve, reject) => {
+      const instance = new sqlite3.Database(this.filePath, (error: any) =>
+        error ? reject(error) : resolve(instance)
+      );
+    });
+
+    try {
+      await this.runOn(
+        db,
+        `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          expires_at INTEGER
+        )`,
+        []
+      );
+
+      // 만료된 항목 정리
+      await this.runOn(
+        db,
+        `DELETE FROM ${this.tableName} WHERE expires_at IS NOT NULL AND expires_at <= ?`,
+        [Date.now()]
+      );
+    } catch (error) {
+      // 다시 시도할 때 연결이 쌓이지 않도록 닫음
+      await new Promise<void>((resolve) => db.close(() => resolve()));
+      throw error;
+    }
+
+    this.logger.debug(`Opened SQLite storage: ${this.filePath}`);
+    return db;
+  }
+
+  private async execute(sql: string, params: any[]): Promise<number> {
+    return this.runOn(await this.getDatabase(), sql, params);
+  }
+
+  private runOn(db: SqliteDatabase, sql: string, params: any[]) {
+    return new Promise<number>((resolve, reject) => {
+      db.run(sql, params, function (error) {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(this?.changes ?? 0);
+        }
+      });
+    });
+  }
+
+  private async queryOne(sql: string, params: any[]): Promise<any> {
+    const db = await this.getDatabase();
+    return new Promise<any>((resolve, reject) => {
+      db.get(sql, params, (error, row) =>
+        error ? reject(error) : resolve(row)
+      );
+    });
+  }
+}
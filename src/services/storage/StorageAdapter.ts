@@ -0,0 +1,75 @@
+/**
+ * Storage adapter interface for persisting bot state
+ */
+
+export interface StorageSetOptions {
+  ttlMs?: number; // 만료 시간 (밀리초), 지정하지 않으면 만료되지 않음
+}
+
+/**
+ * New value returned by an update function
+ */
+export interface StorageUpdate<T, R> {
+  value: T | undefined; // undefined이면 삭제
+  ttlMs?: number; // 만료 시간 (밀리초), 지정하지 않으면 만료되지 않음
+  result: R; // update()가 반환할 값
+}
+
+/**
+ * Key/value storage backend.
+
+ * Values must be JSON-serializable; keys are flat strings separated by ':'.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+
+  get<T = any>(key: string): Promise<T | undefined>;
+  set<T = any>(
+    key: string,
+    value: T,
+    options?: StorageSetOptions
+  ): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  has(key: string): Promise<boolean>;
+
+  /**
+   * List keys, optionally filtered by prefix
+   */
+  keys(prefix?: string): Promise<string[]>;
+
+  /**
+   * Remove all keys, optionally only those starting with prefix
+   */
+  clear(prefix?: string): Promise<void>;
+
+  /**
+   * Atomically read a value and replace it with the result of the updater
+   * 여러 프로세스가 같은 저장소를 공유해도 갱신이 유실되지 않아야 함
+   * (구현하지 않은 저장소는 한 프로세스 안에서만 순서가 보장됨)
+   * @param updater - 현재 값(없으면 undefined)을 받아 새 값을 반환, 충돌 시 다시 호출될 수 있으므로 부작용이 없어야 함
+   */
+  update?<T = any, R = void>(
+    key: string,
+    updater: (current: T | undefined) => StorageUpdate<T, R>
+  ): Promise<R>;
+
+  /**
+   * Flush pending writes and release resources
+   */
+  close(): Promise<void>;
+}
+
+export interface StoredEntry {
+  value: any;
+  expiresAt?: number;
+}
+
+export function isEntryExpired(entry: StoredEntry, now = Date.now()): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+export function getExpiresAt(options?: StorageSetOptions): number | undefined {
+  return options?.ttlMs !== undefined && options.ttlMs > 0
+    ? Date.now() + options.ttlMs
+    : undefined;
+}
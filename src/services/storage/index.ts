@@ -0,0 +1,75 @@
+/**
+ * Pluggable storage for bot state (throttle, scheduler, KakaoLink cookies, controller data)
+ */
+
+import { JsonFileStorageAdapter } from './JsonFileStorageAdapter';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+import { ScopedStorage } from './ScopedStorage';
+import { SqliteStorageAdapter } from './SqliteStorageAdapter';
+import { StorageAdapter } from './StorageAdapter';
+
+export { JsonFileStorageAdapter } from './JsonFileStorageAdapter';
+export type { JsonFileStorageOptions } from './JsonFileStorageAdapter';
+export { MemoryStorageAdapter } from './MemoryStorageAdapter';
+export type { MemoryStorageOptions } from './MemoryStorageAdapter';
+export { ContextStorage, ScopedStorage } from './ScopedStorage';
+export { SqliteStorageAdapter } from './SqliteStorageAdapter';
+export type { SqliteStorageOptions } from './SqliteStorageAdapter';
+export type {
+  StorageAdapter,
+  StorageSetOptions,
+  StorageUpdate,
+} from './StorageAdapter';
+
+export type StorageOptions =
+  | { type: 'memory'; sweepIntervalMs?: number }
+  | { type: 'json'; filePath: string; flushDelayMs?: number; pretty?: boolean }
+  | { type: 'sqlite'; filePath: string; tableName?: string };
+
+let storageAdapter: StorageAdapter = new MemoryStorageAdapter();
+
+/**
+ * Create a storage adapter from options
+ */
+export function createStorageAdapter(
+  options: StorageOptions | StorageAdapter
+): StorageAdapter {
+  if (typeof (options as StorageAdapter).get === 'function') {
+    return options as StorageAdapter;
+  }
+
+  const config = options as StorageOptions;
+  switch (config.type) {
+    case 'json':
+      return new JsonFileStorageAdapter(config);
+    case 'sqlite':
+      return new SqliteStorageAdapter(config);
+    default:
+      return new MemoryStorageAdapter(config);
+  }
+}
+
+/**
+ * Get the storage adapter used by the bot
+ */
+export function getStorageAdapter(): StorageAdapter {
+  return storageAdapter;
+}
+
+/**
+ * Replace the storage adapter used by the bot
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  storageAdapter = adapter;
+}
+
+/**
+ * Get a namespaced view over the current storage adapter
+ * @param resolveAdapter - 사용할 저장소 (기본: 전역 저장소, 봇별 저장소를 쓸 때 지정)
+ */
+export function getScopedStorage(
+  namespace: string,
+  resolveAdapter: () => StorageAdapter = getStorageAdapter
+): ScopedStorage {
+  return new ScopedStorage(resolveAdapter, namespace);
+}
@@ -2,6 +2,12 @@
  * Common type definitions for the iris application
  */
 
+import type {
+  IrisAotResponse,
+  IrisConfigResponse,
+  IrisReplyResponse,
+} from './models/api';
+
 // Base interfaces
 export interface IrisConfig {
   logLevel: 'debug' | 'info' | 'warn' | 'error';
@@ -61,6 +67,125 @@ export class ProcessingError extends IrisError {
   }
 }
 
+/**
+ * Base class of errors from Iris API calls
+ */
+export class IrisApiError extends IrisError {
+  constructor(
+    message: string,
+    code: string,
+    public endpoint: string,
+    public attempts: number,
+    details?: any
+  ) {
+    super(message, code, details);
+    this.name = 'IrisApiError';
+  }
+}
+
+/**
+ * Iris could not be reached (connection refused, DNS, reset)
+ */
+export class IrisNetworkError extends IrisApiError {
+  constructor(endpoint: string, attempts: number, details?: any) {
+    super(
+      `Iris is unreachable: ${endpoint}`,
+      'NETWORK_ERROR',
+      endpoint,
+      attempts,
+      details
+    );
+    this.name = 'IrisNetworkError';
+  }
+}
+
+/**
+ * Iris did not respond in time
+ */
+export class IrisTimeoutError extends IrisApiError {
+  constructor(
+    endpoint: string,
+    attempts: number,
+    public timeoutMs: number
+  ) {
+    super(
+      `Iris request timed out after ${timeoutMs}ms: ${endpoint}`,
+      'TIMEOUT',
+      endpoint,
+      attempts
+    );
+    this.name = 'IrisTimeoutError';
+  }
+}
+
+/**
+ * Iris responded with an error status
+ */
+export class IrisResponseError extends IrisApiError {
+  constructor(
+    endpoint: string,
+    attempts: number,
+    public status: number,
+    message?: string,
+    details?: any
+  ) {
+    super(
+      `Iris error ${status}: ${message || 'Unknown error'} (${endpoint})`,
+      'IRIS_ERROR',
+      endpoint,
+      attempts,
+      details
+    );
+    this.name = 'IrisResponseError';
+  }
+}
+
+/**
+ * The Iris response could not be decoded or has an unexpected shape
+ */
+export class IrisDecodeError extends IrisApiError {
+  constructor(endpoint: string, message: string, details?: any) {
+    super(
+      `Invalid Iris response: ${message} (${endpoint})`,
+      'DECODE_ERROR',
+      endpoint,
+      1,
+      details
+    );
+    this.name = 'IrisDecodeError';
+  }
+}
+
+/**
+ * The circuit breaker is open because Iris failed repeatedly; the request was not sent
+ */
+export class IrisCircuitOpenError extends IrisApiError {
+  constructor(endpoint: string, message = 'Iris is unavailable') {
+    super(`${message} (${endpoint})`, 'CIRCUIT_OPEN', endpoint, 0);
+    this.name = 'IrisCircuitOpenError';
+  }
+}
+
+/**
+ * Network errors, timeouts, 429 and 5xx responses may succeed when retried
+ * @param retryTimeouts - false이면 시간 초과는 재시도하지 않음 (요청이 이미 처리되었을 수 있음)
+ */
+export function isRetryableError(
+  error: unknown,
+  retryTimeouts: boolean = true
+): boolean {
+  if (error instanceof IrisTimeoutError) {
+    return retryTimeouts;
+  }
+  if (error instanceof IrisNetworkError) {
+    return true;
+  }
+  return (
+    error instanceof IrisResponseError &&
+    (error.status === 429 || error.status >= 500)
+  );
+}
+
 // Utility types
 export type AsyncFunction<T = any, R = any> = (input: T) => Promise<R>;
 export type SyncFunction<T = any, R = any> = (input: T) => R;
@@ -79,21 +204,30 @@ export type EventHandler<T = any> = (data: T) => void | Promise<void>;
 
 export interface IIrisAPI {
   // Core methods matching Python iris API
-  reply(roomId: string | number, message: string): Promise<any>;
-  replyMedia(roomId: string | number, files: Buffer[]): Promise<any>;
+  reply(roomId: string | number, message: string): Promise<IrisReplyResponse>;
+  replyMedia(
+    roomId: string | number,
+    files: Buffer[]
+  ): Promise<IrisReplyResponse | undefined>;
 
   // Enhanced image URL methods
-  replyImageUrls(roomId: string | number, imageUrls: string[]): Promise<any>;
-  replyImageUrl(roomId: string | number, imageUrl: string): Promise<any>;
+  replyImageUrls(
+    roomId: string | number,
+    imageUrls: string[]
+  ): Promise<IrisReplyResponse | undefined>;
+  replyImageUrl(
+    roomId: string | number,
+    imageUrl: string
+  ): Promise<IrisReplyResponse | undefined>;
 
   decrypt(
     enc: number,
     b64Ciphertext: string,
     userId: string | number
   ): Promise<string | null>;
-  query(query: string, bind?: any[]): Promise<any[]>;
-  getInfo(): Promise<any>;
-  getAot(): Promise<any>;
+  query<T = Record<string, any>>(query: string, bind?: any[]): Promise<T[]>;
+  getInfo(): Promise<IrisConfigResponse>;
+  getAot(): Promise<IrisAotResponse>;
 }
 
 // Re-export models for backward compatibility
@@ -0,0 +1,53 @@
+/**
+ * Response models of the Iris HTTP API
+ */
+
+/**
+ * POST /reply
+ */
+export interface IrisReplyResponse {
+  success?: boolean;
+  message?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * POST /query
+ */
+export interface IrisQueryResponse<T = Record<string, any>> {
+  data: T[];
+}
+
+/**
+ * GET /config
+ */
+export interface IrisConfigResponse {
+  bot_id: number | string;
+  bot_name?: string;
+  bot_http_port?: number;
+  web_server_endpoint?: string;
+  db_polling_rate?: number;
+  message_send_rate?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * GET /aot (카카오 인증 토큰)
+ */
+export interface IrisAotResponse {
+  success?: boolean;
+  aot: {
+    access_token: string;
+    refresh_token?: string;
+    token_type?: string;
+    d_id: string;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * POST /decrypt
+ */
+export interface IrisDecryptResponse {
+  plain_text: string | null;
+}
@@ -15,6 +15,7 @@ export interface IrisRequest {
   raw: IrisRawData;
   room: string;
   sender: string;
+  backfilled?: boolean; // 재연결 후 messages 테이블에서 가져온 메시지
 }
 
 export interface VField {
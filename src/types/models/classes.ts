@@ -2,9 +2,21 @@
  * Core classes for node-iris: Room, User, Avatar, ChatContext, ErrorContext
  */
 
+import {
+  Conversation,
+  ConversationManager,
+  PromptOptions,
+} from '@/services/bot/ConversationManager';
+import { getDatabase, IrisDatabase, MessageRow } from '@/services/database';
+import {
+  ContextStorage,
+  getStorageAdapter,
+  StorageAdapter,
+} from '@/services/storage';
 import type { IIrisAPI } from '@/types';
-import { idToString, safeJsonParseWithReviver, toSafeId } from '@/utils';
+import { idToString, toSafeId } from '@/utils';
 import { Logger } from '@/utils/logger';
+import { foldMessage, ReplyOptions } from '@/utils/message-format';
 import type { IrisRawData, SafeId } from './base';
 import { Message } from './message';
 
@@ -40,20 +52,10 @@ export class Room {
     }
 
     try {
-      const results = await this._api.query(
-        'SELECT type FROM chat_rooms WHERE id = ?',
-        [this.getIdAsString()]
-      );
-
-      if (results && results[0]) {
-        this._type = results[0].type;
-        return this._type as string | null;
-      }
-
-      this._type = null;
-      return null;
+      this._type = await getDatabase(this._api).rooms.getType(this.id);
+      return this._type;
     } catch (error) {
-      this._type = null;
+      // 실패한 결과는 기억하지 않음 (인스턴스가 여러 이벤트에서 공유됨)
       return null;
     }
   }
@@ -99,25 +101,18 @@ export class Avatar {
     }
 
     try {
-      let results: any[];
+      const db = getDatabase(this._api);
 
       if (this.getIdAsBigInt() < 10000000000n) {
-        results = await this._api.query(
-          'SELECT T2.o_profile_image_url FROM chat_rooms AS T1 JOIN db2.open_profile AS T2 ON T1.link_id = T2.link_id WHERE T1.id = ?',
-          [this.getChatIdAsString()]
-        );
-        this._url = results[0]?.o_profile_image_url || null;
+        const profile = await db.openProfiles.findByRoomId(this._chatId);
+        this._url = profile?.profileImageUrl || null;
       } else {
-        results = await this._api.query(
-          'SELECT original_profile_image_url, enc FROM db2.open_chat_member WHERE user_id = ?',
-          [this.getIdAsString()]
-        );
-        this._url = results[0]?.original_profile_image_url || null;
+        const member = await db.members.findByUserId(this._id);
+        this._url = member?.originalProfileImageUrl || null;
       }
 
       return this._url as string | null;
     } catch (error) {
-      this._url = null;
       return null;
     }
   }
@@ -196,31 +191,21 @@ export class User {
     }
 
     try {
-      let results: any[];
+      const db = getDatabase(this._api);
 
       if (this.id === this._botId) {
-        results = await this._api.query(
-          'SELECT T2.nickname FROM chat_rooms AS T1 JOIN db2.open_profile AS T2 ON T1.link_id = T2.link_id WHERE T1.id = ?',
-          [this._chatId]
-        );
-        this._name = results[0]?.nickname || null;
-      } else if (BigInt(this.id) < 10000000000n) {
-        results = await this._api.query(
-          'SELECT name, enc FROM db2.friends WHERE id = ?',
-          [this.id]
-        );
-        this._name = results[0]?.name || null;
+        const profile = await db.openProfiles.findByRoomId(this._chatId);
+        this._name = profile?.nickname || null;
+      } else if (this.id < 10000000000n) {
+        const friend = await db.friends.findById(this.id);
+        this._name = friend?.name || null;
       } else {
-        results = await this._api.query(
-          'SELECT nickname, enc FROM db2.open_chat_member WHERE user_id = ?',
-          [this.id]
-        );
-        this._name = results[0]?.nickname || null;
+        const member = await db.members.findByUserId(this.id);
+        this._name = member?.nickname || null;
       }
 
       return this._name as string | null;
     } catch (error) {
-      this._name = null;
       return null;
     }
   }
@@ -231,21 +216,11 @@ export class User {
     }
 
     try {
-      let results: any[];
-
-      if (this.id === this._botId) {
-        results = await this._api.query(
-          'SELECT T2.link_member_type FROM chat_rooms AS T1 INNER JOIN open_profile AS T2 ON T1.link_id = T2.link_id WHERE T1.id = ?',
-          [this._chatId]
-        );
-      } else {
-        results = await this._api.query(
-          'SELECT link_member_type FROM db2.open_chat_member WHERE user_id = ?',
-          [this.id]
-        );
-      }
-
-      const memberType = parseInt(results[0]?.link_member_type || '0');
+      const db = getDatabase(this._api);
+      const memberType =
+        this.id === this._botId
+          ? (await db.openProfiles.findByRoomId(this._chatId))?.memberType
+          : (await db.members.findByUserId(this.id))?.memberType;
 
       switch (memberType) {
         case 1:
@@ -266,8 +241,7 @@ export class User {
 
       return this._type;
     } catch (error) {
-      this._type = 'REAL_PROFILE';
-      return this._type;
+      return 'REAL_PROFILE';
     }
   }
 
@@ -283,6 +257,13 @@ export class ChatContext {
   public message: Message;
   public raw: IrisRawData;
   public api: IIrisAPI;
+  public event?: string; // 발생한 이벤트 (message, new_member, del_member, feed, unknown)
+  public state: Record<string, any> = {}; // 미들웨어와 핸들러가 공유하는 값
+  public backfilled = false; // 재연결 후 뒤늦게 처리된 메시지이면 true
+  public botName?: string; // 메시지를 받은 봇의 이름
+  public resolveStorage: () => StorageAdapter = getStorageAdapter; // 메시지를 받은 봇의 저장소
+  private propagationStopped = false;
+  private _storage?: ContextStorage;
 
   constructor(
     room: Room,
@@ -298,13 +279,89 @@ export class ChatContext {
     this.api = api;
   }
 
-  async reply(message: string, roomId?: string | number): Promise<void> {
+  /**
+   * Persistent key/value storage (bot-wide, with `room`, `user` and `roomUser` scopes)
+   */
+  get storage(): ContextStorage {
+    if (!this._storage) {
+      this._storage = new ContextStorage(
+        this.resolveStorage,
+        this.room.getIdAsString(),
+        this.sender.getIdAsString(),
+        this.botName
+      );
+    }
+    return this._storage;
+  }
+
+  /**
+   * Typed access to the KakaoTalk database (rooms, messages, members, friends, openProfiles)
+   */
+  get db(): IrisDatabase {
+    return getDatabase(this.api);
+  }
+
+  /**
+   * Reply to the room (or another room)
+   * 긴 메시지는 자동으로 나누어 보내며, `{ fold: 'header' }`로 첫 줄 이후를 '전체보기'로 접을 수 있음
+   */
+  async reply(message: string, options?: ReplyOptions): Promise<void>;
+  async reply(
+    message: string,
+    roomId?: string | number,
+    options?: ReplyOptions
+  ): Promise<void>;
+  async reply(
+    message: string,
+    roomIdOrOptions?: string | number | ReplyOptions,
+    options: ReplyOptions = {}
+  ): Promise<void> {
+    const roomId =
+      typeof roomIdOrOptions === 'object' ? undefined : roomIdOrOptions;
+    if (typeof roomIdOrOptions === 'object') {
+      options = roomIdOrOptions;
+    }
+
     const targetRoomId = roomId || this.room.id;
     const roomIdString =
       typeof targetRoomId === 'string' || typeof targetRoomId === 'number'
         ? idToString(targetRoomId)
         : this.room.getIdAsString();
-    await this.api.reply(roomIdString, message);
+    await this.api.reply(
+      roomIdString,
+      options.fold ? foldMessage(message, options.fold) : message
+    );
+  }
+
+  /**
+   * Ask a question and wait for the sender's next message in this room
+   * 응답 전에 시간이 초과되거나 취소되면 PromptAbortedError가 발생합니다.
+   * @returns 응답 메시지의 ChatContext
+   */
+  async prompt(
+    question: string,
+    options: PromptOptions = {}
+  ): Promise<ChatContext> {
+    return ConversationManager.getInstance().prompt(this, question, options);
+  }
+
+  /**
+   * Start a multi-step conversation with the sender
+   * @param defaults - 모든 질문에 적용할 기본 옵션
+   */
+  conversation(defaults: PromptOptions = {}): Conversation {
+    return new Conversation(this, defaults);
+  }
+
+  /**
+   * Stop dispatching this event to handlers with lower priority
+   */
+  stopPropagation(): void {
+    this.propagationStopped = true;
+  }
+
+  isPropagationStopped(): boolean {
+    return this.propagationStopped;
   }
 
   async replyMedia(files: Buffer[], roomId?: string | number): Promise<void> {
@@ -352,40 +409,11 @@ export class ChatContext {
     }
 
     try {
-      // Get the source message from the API
-      const sourceMessage = await this.api.query(
-        'SELECT * FROM messages WHERE id = ? AND chat_id = ?',
-        [replyData.src_logId, this.room.id]
-      );
-
-      if (!sourceMessage || sourceMessage.length === 0) {
-        return null;
-      }
-
-      // Create ChatContext for source message
-      const source = sourceMessage[0];
-      const sourceRoom = new Room(this.room.id, this.room.name, this.api);
-      const sourceUser = new User(
-        source.user_id, // parseInt 제거
-        this.room.id,
-        this.api,
-        source.sender_name
-      );
-      const sourceMsg = new Message(
-        source.id, // parseInt 제거
-        parseInt(source.type),
-        source.message,
-        source.attachment,
-        safeJsonParseWithReviver(source.v || '{}')
-      );
-
-      return new ChatContext(
-        sourceRoom,
-        sourceUser,
-        sourceMsg,
-        source,
-        this.api
+      const source = await this.db.messages.findById(
+        replyData.src_logId,
+        this.room.id
       );
+      return source ? this.fromMessageRow(source) : null;
     } catch (error) {
       this.logger.error('Failed to get source message:', error);
       return null;
@@ -394,32 +422,13 @@ export class ChatContext {
 
   async getNextChat(n: number = 1): Promise<ChatContext | null> {
     try {
-      const nextMessages = await this.api.query(
-        'SELECT * FROM messages WHERE chat_id = ? AND id > ? ORDER BY id ASC LIMIT ?',
-        [this.room.id, this.message.id, n]
-      );
-
-      if (!nextMessages || nextMessages.length === 0) {
-        return null;
-      }
-
-      const next = nextMessages[n - 1] || nextMessages[nextMessages.length - 1];
-      const nextRoom = new Room(this.room.id, this.room.name, this.api);
-      const nextUser = new User(
-        next.user_id, // parseInt 제거
+      const nextMessages = await this.db.messages.findAfter(
         this.room.id,
-        this.api,
-        next.sender_name
-      );
-      const nextMsg = new Message(
-        next.id, // parseInt 제거
-        parseInt(next.type),
-        next.message,
-        next.attachment,
-        safeJsonParseWithReviver(next.v || '{}')
+        this.message.id,
+        { limit: n }
       );
-
-      return new ChatContext(nextRoom, nextUser, nextMsg, next, this.api);
+      const next = nextMessages[n - 1] || nextMessages[nextMessages.length - 1];
+      return next ? this.fromMessageRow(next) : null;
     } catch (error) {
       this.logger.error('Failed to get next chat:', error);
       return null;
@@ -428,37 +437,38 @@ export class ChatContext {
 
   async getPreviousChat(n: number = 1): Promise<ChatContext | null> {
     try {
-      const prevMessages = await this.api.query(
-        'SELECT * FROM messages WHERE chat_id = ? AND id < ? ORDER BY id DESC LIMIT ?',
-        [this.room.id, this.message.id, n]
-      );
-
-      if (!prevMessages || prevMessages.length === 0) {
-        return null;
-      }
-
-      const prev = prevMessages[n - 1] || prevMessages[prevMessages.length - 1];
-      const prevRoom = new Room(this.room.id, this.room.name, this.api);
-      const prevUser = new User(
-        prev.user_id, // parseInt 제거
+      const prevMessages = await this.db.messages.findBefore(
         this.room.id,
-        this.api,
-        prev.sender_name
-      );
-      const prevMsg = new Message(
-        prev.id, // parseInt 제거
-        parseInt(prev.type),
-        prev.message,
-        prev.attachment,
-        safeJsonParseWithReviver(prev.v || '{}')
+        this.message.id,
+        { limit: n }
       );
-
-      return new ChatContext(prevRoom, prevUser, prevMsg, prev, this.api);
+      const prev = prevMessages[n - 1] || prevMessages[prevMessages.length - 1];
+      return prev ? this.fromMessageRow(prev) : null;
     } catch (error) {
       this.logger.error('Failed to get previous chat:', error);
       return null;
     }
   }
+
+  /**
+   * Build a ChatContext for another message in this room
+   */
+  private fromMessageRow(row: MessageRow): ChatContext {
+    const room = new Room(this.room.id, this.room.name, this.api);
+    const user = new User(row.userId, this.room.id, this.api, row.senderName);
+    const message = new Message(
+      row.id,
+      row.type,
+      row.message,
+      row.attachment,
+      row.v
+    );
+
+    const context = new ChatContext(room, user, message, row.raw, this.api);
+    context.botName = this.botName;
+    context.resolveStorage = this.resolveStorage;
+    return context;
+  }
 }
 
 export class ErrorContext {
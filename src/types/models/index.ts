@@ -21,6 +21,9 @@ export * from './message';
 // Core classes
 export * from './classes';
 
+// Iris API response models
+export * from './api';
+
 // Legacy compatibility - ensure all original exports are available
 
 export {
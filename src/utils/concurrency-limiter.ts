@@ -0,0 +1,111 @@
+/**
+ * Run async tasks with a concurrency limit, keeping tasks with the same key in order
+ */
+
+export interface ConcurrencyLimiterOptions {
+  concurrency?: number; // 동시에 실행할 최대 작업 수 (기본: 제한 없음)
+}
+
+export interface ConcurrencyStats {
+  concurrency: number;
+  active: number; // 실행 중인 작업 수
+  queued: number; // 대기 중인 작업 수
+  maxQueued: number; // 가장 많이 대기했던 작업 수
+  processed: number; // 완료된 작업 수 (실패 포함)
+  averageWaitMs: number; // 실행되기까지 기다린 평균 시간
+  maxWaitMs: number; // 실행되기까지 기다린 최대 시간
+}
+
+interface PendingTask {
+  key?: string;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+export class ConcurrencyLimiter {
+  private concurrency: number;
+  private pending: PendingTask[] = [];
+  // 실행 중인 작업의 키 (같은 키의 작업은 하나씩 실행)
+  private busyKeys = new Set<string>();
+  private active = 0;
+  private maxQueued = 0;
+  private processed = 0;
+  private started = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(options: ConcurrencyLimiterOptions = {}) {
+    this.concurrency =
+      options.concurrency && options.concurrency > 0
+        ? options.concurrency
+        : Infinity;
+  }
+
+  /**
+   * Run a task when a slot is free
+   * @param key - 같은 키의 작업은 추가된 순서대로 하나씩 실행 (없으면 순서 보장 없음)
+   */
+  run<T>(key: string | undefined, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({
+        key,
+        enqueuedAt: Date.now(),
+        start: () => {
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.processed++;
+              if (key !== undefined) {
+                this.busyKeys.delete(key);
+              }
+              this.next();
+            });
+        },
+      });
+      this.next();
+      this.maxQueued = Math.max(this.maxQueued, this.pending.length);
+    });
+  }
+
+  getStats(): ConcurrencyStats {
+    return {
+      concurrency: this.concurrency,
+      active: this.active,
+      queued: this.pending.length,
+      maxQueued: this.maxQueued,
+      processed: this.processed,
+      averageWaitMs:
+        this.started === 0 ? 0 : Math.round(this.totalWaitMs / this.started),
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private next(): void {
+    for (
+      let i = 0;
+      i < this.pending.length && this.active < this.concurrency;
+
+    ) {
+      const task = this.pending[i];
+      if (task.key !== undefined && this.busyKeys.has(task.key)) {
+        i++;
+        continue;
+      }
+
+      this.pending.splice(i, 1);
+      if (task.key !== undefined) {
+        this.busyKeys.add(task.key);
+      }
+      this.active++;
+
+      const waitMs = Date.now() - task.enqueuedAt;
+      this.started++;
+      this.totalWaitMs += waitMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+
+      task.start();
+    }
+  }
+}
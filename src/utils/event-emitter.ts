@@ -4,6 +4,7 @@
 
 import { ErrorContext } from '@/types/models';
 import { EventEmitter as NodeEventEmitter } from 'events';
+import { InFlightTracker } from './in-flight';
 import { Logger } from './logger';
 
 export type EventHandler = (...args: any[]) => void | Promise<void>;
@@ -11,11 +12,10 @@ export type EventHandler = (...args: any[]) => void | Promise<void>;
 export class EventEmitter {
   private logger: Logger = new Logger('EventEmitter');
   private emitter: NodeEventEmitter;
-  private maxWorkers?: number;
+  private inFlight = new InFlightTracker();
 
-  constructor(maxWorkers?: number) {
+  constructor() {
     this.emitter = new NodeEventEmitter();
-    this.maxWorkers = maxWorkers;
 
     // Increase max listeners to avoid warnings
     this.emitter.setMaxListeners(100);
@@ -43,7 +43,28 @@ export class EventEmitter {
     }
   }
 
-  private async executeHandler(
+  /**
+   * Emit event and wait until all handlers have finished
+   */
+  async emitAsync(event: string, args: any[] = []): Promise<void> {
+    const listeners = this.emitter.listeners(event);
+
+    await Promise.all(
+      listeners.map((listener) =>
+        this.executeHandler(event, listener as EventHandler, args)
+      )
+    );
+  }
+
+  private executeHandler(
+    event: string,
+    handler: EventHandler,
+    args: any[]
+  ): Promise<void> {
+    return this.inFlight.track(() => this.runHandler(event, handler, args));
+  }
+
+  private async runHandler(
     event: string,
     handler: EventHandler,
     args: any[]
@@ -73,6 +94,20 @@ export class EventEmitter {
     }
   }
 
+  /**
+   * Number of handlers currently running
+   */
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Wait until all running handlers have finished
+   */
+  onIdle(): Promise<void> {
+    return this.inFlight.onIdle();
+  }
+
   removeAllListeners(event?: string): void {
     this.emitter.removeAllListeners(event);
   }
@@ -0,0 +1,37 @@
+/**
+ * Track running async work so that shutdown can wait for it
+ */
+
+export class InFlightTracker {
+  private count = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  /**
+   * Run a task and count it as in-flight until it settles
+   */
+  async track<T>(task: () => Promise<T>): Promise<T> {
+    this.count++;
+    try {
+      return await task();
+    } finally {
+      this.count--;
+      if (this.count === 0) {
+        this.idleWaiters.splice(0).forEach((resolve) => resolve());
+      }
+    }
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Wait until no tracked task is running
+   */
+  onIdle(): Promise<void> {
+    if (this.count === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+}
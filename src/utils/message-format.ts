@@ -0,0 +1,87 @@
+/**
+ * Split long messages into numbered parts and fold text behind KakaoTalk's "see more"
+ */
+
+/**
+ * 카카오톡은 약 500자 이후의 내용을 '전체보기'로 접어서 보여주므로,
+ * 보이지 않는 문자(U+200B)로 그 길이를 채우면 이후 내용이 접힘
+ */
+export const FOLD_MARKER = '\u200b'.repeat(500);
+
+/**
+ * - header: 첫 줄만 보이고 나머지는 '전체보기'로 접음
+ * - all: 전체 내용을 '전체보기'로 접음
+ */
+export type FoldMode = 'header' | 'all';
+
+export interface ReplyOptions {
+  fold?: FoldMode;
+}
+
+/**
+ * Fold a message so that only the header (or nothing) is visible before "see more"
+ */
+export function foldMessage(text: string, mode: FoldMode = 'header'): string {
+  if (mode === 'all') {
+    return `${FOLD_MARKER}${text}`;
+  }
+
+  const newline = text.indexOf('\n');
+  if (newline === -1) {
+    return `${text}${FOLD_MARKER}`;
+  }
+  return `${text.slice(0, newline)}${FOLD_MARKER}${text.slice(newline)}`;
+}
+
+/**
+ * Split a message into numbered parts of at most maxLength characters
+ * 문단(빈 줄), 줄 경계 순으로 나눌 위치를 찾고, 없으면 글자 단위로 나눔
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+  if (maxLength <= 0 || text.length <= maxLength) {
+    return [text];
+  }
+
+  // "(12/34) " 번호를 붙일 자리는 전체 개수의 자릿수에 따라 달라지므로,
+  // 나눈 개수의 자릿수가 늘어나면 그만큼 더 짧게 다시 나눔
+  let digits = 1;
+  let parts = splitParts(text, maxLength, digits);
+  while (String(parts.length).length > digits) {
+    digits = String(parts.length).length;
+    parts = splitParts(text, maxLength, digits);
+  }
+
+  return parts.map((part, i) => `(${i + 1}/${parts.length}) ${part}`);
+}
+
+function splitParts(text: string, maxLength: number, digits: number): string[] {
+  const limit = Math.max(1, maxLength - (2 * digits + 4));
+  const parts: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    let cut = rest.lastIndexOf('\n\n', limit);
+    let separatorLength = 2;
+
+    // 문단 경계가 너무 앞에 있으면 줄 경계 사용
+    if (cut < limit / 2) {
+      cut = rest.lastIndexOf('\n', limit);
+      separatorLength = 1;
+    }
+
+    if (cut <= 0) {
+      cut = limit;
+      separatorLength = 0;
+      // 서로게이트 쌍(이모지 등)이 나뉘지 않도록
+      const code = rest.charCodeAt(cut - 1);
+      if (code >= 0xd800 && code <= 0xdbff && cut > 1) {
+        cut--;
+      }
+    }
+
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut + separatorLength);
+  }
+  parts.push(rest);
+  return parts;
+}
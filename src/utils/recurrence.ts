@@ -0,0 +1,368 @@
+/**
+ * Recurrence rules for scheduled messages
+ * Supports cron expressions (5 or 6 fields) and text rules such as "every weekday 9:00"
+ */
+
+import { ValidationError } from '@/types';
+
+export interface RecurrenceRule {
+  source: string;
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = 일요일
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// 약 5년치 일 단위 탐색 + 시/분/초 단위 이동을 충분히 포함하는 상한
+const MAX_ITERATIONS = 200000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a cron expression or an "every ..." text rule
+ * @throws ValidationError when the rule cannot be parsed
+ */
+export function parseRecurrence(rule: string): RecurrenceRule {
+  const source = rule.trim();
+  const cron = /^every\s+/i.test(source) ? textToCron(source) : source;
+  const fields = cron.split(/\s+/);
+
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new ValidationError(`Invalid recurrence rule: ${rule}`);
+  }
+  if (fields.length === 5) {
+    fields.unshift('0');
+  }
+
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, rule, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    seconds: parseField(second, 0, 59, rule),
+    minutes: parseField(minute, 0, 59, rule),
+    hours: parseField(hour, 0, 23, rule),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, rule),
+    months: parseField(month, 1, 12, rule, MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthRestricted: !isWildcard(dayOfMonth),
+    dayOfWeekRestricted: !isWildcard(dayOfWeek),
+  };
+}
+
+/**
+ * Check whether a recurrence rule is valid
+ */
+export function isValidRecurrence(rule: string): boolean {
+  try {
+    parseRecurrence(rule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether an IANA time zone (e.g. 'Asia/Seoul') is supported
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the next occurrence strictly after the given time
+ * @param rule - cron 표현식, "every ..." 규칙 또는 파싱된 규칙
+ * @param after - 기준 시각 (epoch ms)
+ * @param timeZone - IANA 타임존 (기본: 시스템 타임존)
+ * @returns 다음 실행 시각 (epoch ms), 없으면 null
+ */
+export function getNextOccurrence(
+  rule: string | RecurrenceRule,
+  after: number,
+  timeZone?: string
+): number | null {
+  const parsed = typeof rule === 'string' ? parseRecurrence(rule) : rule;
+  const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // 벽시계 시각을 UTC 필드로 표현하여 탐색
+  let wall = toWallClock(after, zone) + 1000;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const date = new Date(wall);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+    const minute = date.getUTCMinutes();
+
+    if (!parsed.months.has(month + 1)) {
+      wall = Date.UTC(year, month + 1, 1);
+      continue;
+    }
+    if (!matchesDay(parsed, date)) {
+      wall = Date.UTC(year, month, day + 1);
+      continue;
+    }
+    if (!parsed.hours.has(hour)) {
+      wall = Date.UTC(year, month, day, hour + 1);
+      continue;
+    }
+    if (!parsed.minutes.has(minute)) {
+      wall = Date.UTC(year, month, day, hour, minute + 1);
+      continue;
+    }
+    if (!parsed.seconds.has(date.getUTCSeconds())) {
+      wall += 1000;
+      continue;
+    }
+
+    const occurrence = fromWallClock(wall, zone);
+    if (occurrence > after) {
+      return occurrence;
+    }
+    // DST로 같은 벽시계 시각이 반복되는 경우
+    wall += 1000;
+  }
+
+  return null;
+}
+
+function matchesDay(rule: RecurrenceRule, date: Date): boolean {
+  const dayOfMonth = rule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = rule.daysOfWeek.has(date.getUTCDay());
+
+  // cron 규칙: 둘 다 지정된 경우 하나만 일치해도 실행
+  if (rule.dayOfMonthRestricted && rule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function isWildcard(field: string): boolean {
+  return field === '*' || field === '?';
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  rule: string,
+  names?: string[],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = () =>
+    new ValidationError(`Invalid recurrence rule: ${rule} (${field})`);
+
+  const toNumber = (token: string): number => {
+    const nameIndex = names ? names.indexOf(token.toLowerCase()) : -1;
+    const value = nameIndex >= 0 ? nameIndex + nameOffset : Number(token);
+    if (!/^\d+$/.test(token) && nameIndex < 0) throw invalid();
+    if (value < min || value > max) throw invalid();
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw invalid();
+
+    let start: number;
+    let end: number;
+    if (isWildcard(range)) {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+    } else {
+      start = toNumber(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start > end) throw invalid();
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Convert "every ..." text rules to a 6-field cron expression
+ * e.g. "every weekday 9:00", "every monday, friday at 18:30", "every 15 minutes"
+ */
+function textToCron(text: string): string {
+  const body = text
+    .replace(/^every\s+/i, '')
+    .trim()
+    .toLowerCase();
+  const invalid = () => new ValidationError(`Invalid recurrence rule: ${text}`);
+
+  // every 15 minutes / every minute
+  let match = body.match(/^(?:(\d+)\s*)?(?:minutes?|mins?)$/);
+  if (match) {
+    return `0 ${match[1] ? `*/${match[1]}` : '*'} * * * *`;
+  }
+
+  // every 2 hours / every hour [at :30]
+  match = body.match(/^(?:(\d+)\s*)?hours?(?:\s+at\s+:?(\d{1,2}))?$/);
+  if (match) {
+    const minute = match[2] ? Number(match[2]) : 0;
+    if (minute > 59) throw invalid();
+    return `0 ${minute} ${match[1] ? `*/${match[1]}` : '*'} * * *`;
+  }
+
+  // every month on the 15th [at] 9:00
+  match = body.match(
+    /^month\s+on\s+(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?(?:\s+(?:at\s+)?(.+))?$/
+  );
+  if (match) {
+    const [hour, minute] = parseTime(match[2], invalid);
+    return `0 ${minute} ${hour} ${Number(match[1])} * *`;
+  }
+
+  // every day / weekday / weekend / monday,wednesday [at] 9:00
+  match = body.match(/^([a-z,\s]+?)(?:\s+(?:at\s+)?(\d.*))?$/);
+  if (!match) throw invalid();
+
+  const [hour, minute] = parseTime(match[2], invalid);
+  const dayText = match[1].trim();
+  let daysOfWeek: string;
+
+  if (dayText === 'day') {
+    daysOfWeek = '*';
+  } else if (dayText === 'weekday') {
+    daysOfWeek = '1-5';
+  } else if (dayText === 'weekend') {
+    daysOfWeek = '0,6';
+  } else {
+    const days = dayText
+      .split(/\s*,\s*|\s+and\s+|\s+/)
+      .filter((day) => day.length > 0)
+      .map((day) => DAY_NAMES.indexOf(day.substring(0, 3)));
+    if (days.length === 0 || days.some((day) => day < 0)) throw invalid();
+    daysOfWeek = days.join(',');
+  }
+
+  return `0 ${minute} ${hour} * * ${daysOfWeek}`;
+}
+
+function parseTime(
+  text: string | undefined,
+  invalid: () => Error
+): [number, number] {
+  if (!text) {
+    return [0, 0];
+  }
+
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) throw invalid();
+
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  if (match[3]) {
+    if (hour < 1 || hour > 12) throw invalid();
+    hour = (hour % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) throw invalid();
+
+  return [hour, minute];
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall clock time in the time zone, encoded as UTC epoch ms (seconds precision)
+ */
+function toWallClock(epoch: number, timeZone: string): number {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(epoch))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+}
+
+/**
+ * Epoch ms of a wall clock time in the time zone
+ * 서머타임 시작으로 존재하지 않는 시각이면 시계가 건너뛴 직후 시각을 반환
+ */
+function fromWallClock(wall: number, timeZone: string): number {
+  const guess = wall - (toWallClock(wall, timeZone) - wall);
+  const epoch = wall - (toWallClock(guess, timeZone) - guess);
+  if (toWallClock(epoch, timeZone) === wall) {
+    return epoch;
+  }
+
+  // 전환 전후 오프셋으로 구간을 잡고, 벽시계가 처음으로 wall을 넘는 시각을 찾음
+  const offsetBefore = toWallClock(wall - DAY_MS, timeZone) - (wall - DAY_MS);
+  const offsetAfter = toWallClock(wall + DAY_MS, timeZone) - (wall + DAY_MS);
+  let low = wall - offsetAfter; // 전환 전 (벽시계 < wall)
+  let high = wall - offsetBefore; // 전환 후 (벽시계 > wall)
+  if (high <= low) {
+    return epoch;
+  }
+  while (high - low > 1000) {
+    const middle = low + Math.floor((high - low) / 2000) * 1000;
+    if (toWallClock(middle, timeZone) > wall) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return high;
+}
@@ -0,0 +1,128 @@
+/**
+ * Bounded in-process queue processed by a fixed number of workers
+ */
+
+import { Logger } from './logger';
+
+/**
+ * 큐가 가득 찼을 때의 처리 방식
+ * - drop-oldest: 가장 오래된 항목을 버리고 새 항목 추가
+ * - reject: 새 항목을 거부
+ */
+export type QueueOverflowPolicy = 'drop-oldest' | 'reject';
+
+export interface TaskQueueOptions {
+  concurrency?: number; // 동시에 처리할 항목 수 (기본: 4)
+  maxSize?: number; // 대기 중인 항목의 최대 개수 (기본: 1000)
+  overflow?: QueueOverflowPolicy; // 기본: 'reject'
+}
+
+export interface TaskQueueStats {
+  depth: number; // 대기 중인 항목 수
+  active: number; // 처리 중인 항목 수
+  maxSize: number;
+  concurrency: number;
+  processed: number;
+  failed: number;
+  dropped: number; // drop-oldest로 버려진 항목 수
+  rejected: number; // reject로 거부된 항목 수
+}
+
+export class TaskQueue<T> {
+  private logger: Logger;
+  private worker: (item: T) => Promise<void>;
+  private concurrency: number;
+  private maxSize: number;
+  private overflow: QueueOverflowPolicy;
+  private items: T[] = [];
+  private active = 0;
+  private processed = 0;
+  private failed = 0;
+  private dropped = 0;
+  private rejected = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(
+    name: string,
+    worker: (item: T) => Promise<void>,
+    options: TaskQueueOptions = {}
+  ) {
+    this.logger = new Logger(name);
+    this.worker = worker;
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.maxSize = Math.max(1, options.maxSize ?? 1000);
+    this.overflow = options.overflow || 'reject';
+  }
+
+  /**
+   * Add an item to the queue
+   * @returns 추가되었으면 true, 큐가 가득 차 거부되었으면 false
+   */
+  push(item: T): boolean {
+    if (this.items.length >= this.maxSize) {
+      if (this.overflow === 'reject') {
+        this.rejected++;
+        return false;
+      }
+
+      this.items.shift();
+      this.dropped++;
+      this.logger.warn(
+        `Queue full (${this.maxSize}), dropped the oldest item (${this.dropped} dropped)`
+      );
+    }
+
+    this.items.push(item);
+    this.next();
+    return true;
+  }
+
+  getStats(): TaskQueueStats {
+    return {
+      depth: this.items.length,
+      active: this.active,
+      maxSize: this.maxSize,
+      concurrency: this.concurrency,
+      processed: this.processed,
+      failed: this.failed,
+      dropped: this.dropped,
+      rejected: this.rejected,
+    };
+  }
+
+  /**
+   * Wait until the queue is empty and no item is being processed
+   */
+  onIdle(): Promise<void> {
+    if (this.items.length === 0 && this.active === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private next(): void {
+    while (this.active < this.concurrency && this.items.length > 0) {
+      const item = this.items.shift() as T;
+      this.active++;
+
+      Promise.resolve()
+        .then(() => this.worker(item))
+        .then(
+          () => {
+            this.processed++;
+          },
+          (error) => {
+            this.failed++;
+            this.logger.error('Queued task failed:', error);
+          }
+        )
+        .finally(() => {
+          this.active--;
+          this.next();
+          if (this.items.length === 0 && this.active === 0) {
+            this.idleWaiters.splice(0).forEach((resolve) => resolve());
+          }
+        });
+    }
+  }
+}